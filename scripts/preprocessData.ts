@@ -0,0 +1,198 @@
+import { mkdir, stat, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import * as shapefile from 'shapefile';
+import { cellToParent, latLngToCell } from 'h3-js';
+import { tableFromArrays, tableToIPC } from 'apache-arrow';
+import { writeParquet, Table as WasmTable, WriterPropertiesBuilder, Compression } from 'parquet-wasm';
+import { processBoreholeData, aggregateToResolution } from '../src/utils/processData';
+import { bngToWgs84 } from '../src/utils/projection';
+import { POINT_CHUNK_RESOLUTION } from '../src/utils/pointData';
+import { HEX_CHUNK_RESOLUTIONS } from '../src/utils/hexChunks';
+import { DataMetadata } from '../src/utils/dataMetadata';
+
+const SHAPEFILE_PATH = process.argv[2] ?? './borehole/borehole.shp';
+const OUTPUT_DIR = './public/data';
+const SCALES = [3, 4, 5, 6, 7];
+
+interface BoreholePoint {
+  latitude: number;
+  longitude: number;
+  hasAGS: boolean;
+  bgsId: number | null;
+  reference: string | null;
+  name: string | null;
+  gridReference: string | null;
+  length: number | null;
+  year: number | null;
+  agsUrl: string | null;
+}
+
+const textOrNull = (value: unknown) => {
+  const text = value === null || value === undefined ? '' : String(value).trim();
+  return text === '' ? null : text;
+};
+
+// SOBI uses zero for an unknown drilled length or year
+const positiveOrNull = (value: unknown) => {
+  const number = Number(value);
+  return Number.isFinite(number) && number > 0 ? number : null;
+};
+
+const readBoreholes = async (shapefilePath: string): Promise<BoreholePoint[]> => {
+  const source = await shapefile.open(shapefilePath, shapefilePath.replace(/\.shp$/i, '.dbf'));
+  const points: BoreholePoint[] = [];
+
+  let result = await source.read();
+  while (!result.done) {
+    const { geometry, properties } = result.value;
+    if (geometry?.type === 'Point') {
+      const [easting, northing] = geometry.coordinates;
+      const [longitude, latitude] = bngToWgs84(easting, northing);
+      const agsUrl = textOrNull(properties?.AGS_LOG_UR);
+      points.push({
+        latitude,
+        longitude,
+        hasAGS: agsUrl !== null,
+        bgsId: positiveOrNull(properties?.BGS_ID),
+        reference: textOrNull(properties?.REFERENCE),
+        name: textOrNull(properties?.NAME),
+        gridReference: textOrNull(properties?.GRID_REFER),
+        length: positiveOrNull(properties?.LENGTH),
+        year: positiveOrNull(properties?.DATE_KNOWN),
+        agsUrl
+      });
+    }
+    result = await source.read();
+  }
+
+  return points;
+};
+
+const writeParquetFile = async (filePath: string, columns: Parameters<typeof tableFromArrays>[0]) => {
+  const table = tableFromArrays(columns);
+
+  const writerProperties = new WriterPropertiesBuilder()
+    .setCompression(Compression.ZSTD)
+    .build();
+  const parquet = writeParquet(WasmTable.fromIPCStream(tableToIPC(table, 'stream')), writerProperties);
+
+  await writeFile(filePath, parquet);
+};
+
+const writeScale = (resolution: number, data: { hexId: string; count: number; AGS_count: number }[]) =>
+  writeParquetFile(path.join(OUTPUT_DIR, `h3_scale_${resolution}.parquet`), {
+    cell: data.map(d => d.hexId),
+    count: Int32Array.from(data, d => d.count),
+    AGS_count: Int32Array.from(data, d => d.AGS_count)
+  });
+
+// The finer scales again, split into one file per parent cell so the map can fetch just the area in view
+const writeScaleChunks = async (resolution: number, data: { hexId: string; count: number; AGS_count: number }[]) => {
+  const chunkResolution = HEX_CHUNK_RESOLUTIONS[resolution];
+  const chunks = new Map<string, typeof data>();
+  data.forEach(cell => {
+    const chunk = cellToParent(cell.hexId, chunkResolution);
+    if (!chunks.has(chunk)) chunks.set(chunk, []);
+    chunks.get(chunk).push(cell);
+  });
+
+  const chunkDir = path.join(OUTPUT_DIR, 'hex', String(resolution));
+  await mkdir(chunkDir, { recursive: true });
+  for (const [chunk, cells] of chunks) {
+    await writeParquetFile(path.join(chunkDir, `${chunk}.parquet`), {
+      cell: cells.map(d => d.hexId),
+      count: Int32Array.from(cells, d => d.count),
+      AGS_count: Int32Array.from(cells, d => d.AGS_count)
+    });
+  }
+
+  return chunks.size;
+};
+
+// One row per borehole with its finest cell, so the map can recount hexes under attribute filters
+const writeAttributes = (points: BoreholePoint[], resolution: number) => {
+  const rows = points
+    .map(point => ({ point, cell: latLngToCell(point.latitude, point.longitude, resolution) }))
+    .sort((a, b) => a.cell.localeCompare(b.cell));
+
+  return writeParquetFile(path.join(OUTPUT_DIR, 'borehole_attributes.parquet'), {
+    cell: rows.map(row => row.cell),
+    length: rows.map(row => row.point.length),
+    year: rows.map(row => row.point.year),
+    has_ags: rows.map(row => row.point.hasAGS)
+  });
+};
+
+// One file of borehole locations per coarse parent cell, so the map only fetches what is in view
+const writePointChunks = async (points: BoreholePoint[]) => {
+  const chunks = new Map<string, BoreholePoint[]>();
+  points.forEach(point => {
+    const chunk = latLngToCell(point.latitude, point.longitude, POINT_CHUNK_RESOLUTION);
+    if (!chunks.has(chunk)) chunks.set(chunk, []);
+    chunks.get(chunk).push(point);
+  });
+
+  await mkdir(path.join(OUTPUT_DIR, 'points'), { recursive: true });
+  for (const [chunk, chunkPoints] of chunks) {
+    await writeParquetFile(path.join(OUTPUT_DIR, 'points', `${chunk}.parquet`), {
+      lat: Float64Array.from(chunkPoints, p => p.latitude),
+      lon: Float64Array.from(chunkPoints, p => p.longitude),
+      bgs_id: chunkPoints.map(p => p.bgsId),
+      reference: chunkPoints.map(p => p.reference),
+      name: chunkPoints.map(p => p.name),
+      grid_ref: chunkPoints.map(p => p.gridReference),
+      length: chunkPoints.map(p => p.length),
+      year: chunkPoints.map(p => p.year),
+      ags_url: chunkPoints.map(p => p.agsUrl)
+    });
+  }
+
+  return chunks.size;
+};
+
+const main = async () => {
+  console.log('🚀 Starting borehole data processing...');
+  await mkdir(OUTPUT_DIR, { recursive: true });
+
+  console.log(`📍 Loading shapefile from: ${SHAPEFILE_PATH}`);
+  const points = await readBoreholes(SHAPEFILE_PATH);
+  console.log(`🔄 Reprojected ${points.length} boreholes from EPSG:27700 to EPSG:4326`);
+
+  // Bin once at the finest scale and roll the cells up to the coarser ones
+  const finest = Math.max(...SCALES);
+  const finestCells = processBoreholeData(points, finest);
+
+  console.log('🏷️  Exporting borehole attributes for filtering...');
+  await writeAttributes(points, finest);
+
+  console.log('📊 Generating H3 scale aggregations...');
+  for (const resolution of SCALES) {
+    const cells = resolution === finest ? finestCells : aggregateToResolution(finestCells, resolution);
+    await writeScale(resolution, cells);
+    console.log(`  💾 Exported H3 scale ${resolution} (${cells.length} cells)`);
+    if (resolution in HEX_CHUNK_RESOLUTIONS) {
+      const chunkCount = await writeScaleChunks(resolution, cells);
+      console.log(`  💾 Split H3 scale ${resolution} into ${chunkCount} chunks by H3 scale ${HEX_CHUNK_RESOLUTIONS[resolution]} parent`);
+    }
+  }
+
+  console.log(`📍 Exporting borehole points by H3 scale ${POINT_CHUNK_RESOLUTION} parent cell...`);
+  const chunkCount = await writePointChunks(points);
+  console.log(`  💾 Exported ${chunkCount} point chunks`);
+
+  // When the SOBI download was taken, quoted as the data date on site reports
+  console.log('🗓️  Writing data metadata...');
+  const { mtime } = await stat(SHAPEFILE_PATH);
+  const metadata: DataMetadata = {
+    source_date: mtime.toISOString().slice(0, 10),
+    processed: new Date().toISOString().slice(0, 10)
+  };
+  await writeFile(path.join(OUTPUT_DIR, 'metadata.json'), JSON.stringify(metadata));
+
+  console.log('✨ Processing completed successfully! ✨');
+};
+
+main().catch(error => {
+  console.error('❌ Preprocessing failed:', error);
+  process.exit(1);
+});
@@ -7,6 +7,7 @@
 # ///
 
 import duckdb
+import json
 import os
 import requests
 import zipfile
@@ -93,28 +94,68 @@ if __name__ == "__main__":
         "ALTER TABLE boreholes ADD COLUMN lon DOUBLE; ALTER TABLE boreholes ADD COLUMN lat DOUBLE; "
     )
     db.sql("UPDATE boreholes SET  lon = ST_X(geom),  lat = ST_Y(geom);")
+    # Blank AGS links mean no log; normalise once so the hex counts, attributes and points agree
+    db.sql("UPDATE boreholes SET AGS_LOG_UR = NULLIF(TRIM(AGS_LOG_UR), '')")
     print(db.sql("SELECT * FROM BOREHOLES LIMIT 5"))
     
     print("🔷 Processing H3 scales...")
     scales = [3, 4, 5, 6, 7]
+    # Finer scales are also split by parent cell; keep in step with HEX_CHUNK_RESOLUTIONS in src/utils/hexChunks.ts
+    chunk_scales = {5: 3, 6: 3, 7: 4}
     for i in scales:
         print(f"  ⚡ Processing H3 scale {i}...")
         db.sql(
             f"ALTER TABLE boreholes ADD COLUMN h3_scale_{i} BIGINT; UPDATE boreholes SET h3_scale_{i} = h3_latlng_to_cell(lat, lon, {i});"
         )
-    print("📋 Boreholes table summary:")
-    #print(db.sql("COPY (SELECT * FROM BOREHOLES) TO './public/data/boreholes.parquet'"))
+    print("📍 Exporting borehole points by H3 scale 5 parent cell...")
+    Path("public/data/points").mkdir(parents=True, exist_ok=True)
+    chunks = db.sql("SELECT DISTINCT h3_h3_to_string(h3_scale_5) FROM boreholes").fetchall()
+    # SOBI attributes shown when a borehole is inspected; zero lengths and years mean unknown
+    point_columns = (
+        "lat, lon, BGS_ID AS bgs_id, REFERENCE AS reference, NAME AS name, GRID_REFER AS grid_ref, "
+        "NULLIF(LENGTH, 0) AS length, NULLIF(DATE_KNOWN, 0) AS year, AGS_LOG_UR AS ags_url"
+    )
+    for (chunk,) in chunks:
+        db.sql(
+            f"COPY (SELECT {point_columns} FROM boreholes WHERE h3_h3_to_string(h3_scale_5) = '{chunk}') TO './public/data/points/{chunk}.parquet' (FORMAT PARQUET, COMPRESSION ZSTD)"
+        )
+    print(f"  💾 Exported {len(chunks)} point chunks")
+
+    print("🏷️  Exporting borehole attributes for filtering...")
+    db.sql(
+        "COPY (SELECT h3_h3_to_string(h3_scale_7) AS cell, NULLIF(LENGTH, 0) AS length, NULLIF(DATE_KNOWN, 0) AS year, "
+        "AGS_LOG_UR IS NOT NULL AS has_ags FROM boreholes ORDER BY cell) "
+        "TO './public/data/borehole_attributes.parquet' (FORMAT PARQUET, COMPRESSION ZSTD)"
+    )
 
     print("📊 Generating H3 scale aggregations...")
     for j in scales:
         print(f"  💾 Creating and exporting H3 scale {j}...")
         db.sql(
-            f"CREATE TABLE boreholes_h3_scale_{j} AS SELECT h3_scale_{j} as cell, h3_cell_to_boundary_wkt(h3_scale_{j}) as wkt, COUNT(h3_scale_{j}) as count, COUNT(CASE WHEN AGS_LOG_UR IS NOT NULL THEN 1 END) as AGS_count FROM boreholes GROUP BY h3_scale_{j}"
+            f"CREATE TABLE boreholes_h3_scale_{j} AS SELECT h3_h3_to_string(h3_scale_{j}) as cell, COUNT(h3_scale_{j}) as count, COUNT(CASE WHEN AGS_LOG_UR IS NOT NULL THEN 1 END) as AGS_count FROM boreholes GROUP BY h3_scale_{j}"
         )
-        db.sql(f"COPY boreholes_h3_scale_{j} TO './public/data/h3_scale_{j}.json' (ARRAY)")
+        db.sql(f"COPY boreholes_h3_scale_{j} TO './public/data/h3_scale_{j}.parquet' (FORMAT PARQUET, COMPRESSION ZSTD)")
+        if j in chunk_scales:
+            parent = chunk_scales[j]
+            Path(f"public/data/hex/{j}").mkdir(parents=True, exist_ok=True)
+            parents = db.sql(
+                f"SELECT DISTINCT h3_h3_to_string(h3_cell_to_parent(h3_string_to_h3(cell), {parent})) FROM boreholes_h3_scale_{j}"
+            ).fetchall()
+            for (chunk,) in parents:
+                db.sql(
+                    f"COPY (SELECT * FROM boreholes_h3_scale_{j} WHERE h3_h3_to_string(h3_cell_to_parent(h3_string_to_h3(cell), {parent})) = '{chunk}') "
+                    f"TO './public/data/hex/{j}/{chunk}.parquet' (FORMAT PARQUET, COMPRESSION ZSTD)"
+                )
+            print(f"  💾 Split H3 scale {j} into {len(parents)} chunks by H3 scale {parent} parent")
         print(f"  📊 Summary for scale {j}:")
         print(db.sql(f"SELECT * FROM BOREHOLES_H3_SCALE_{j}"))
         db.sql(f"DROP TABLE BOREHOLES_H3_SCALE_{j}")
 
+    # When the SOBI download was taken, quoted as the data date on site reports
+    print("🗓️  Writing data metadata...")
+    source_date = datetime.fromtimestamp(os.path.getmtime(shapefilepath)).date().isoformat()
+    with open("public/data/metadata.json", "w") as f:
+        json.dump({"source_date": source_date, "processed": datetime.now().date().isoformat()}, f)
+
     print("✨ Processing completed successfully! ✨")
     print(db.sql("DESCRIBE BOREHOLES").show(max_rows=100))
@@ -3,6 +3,12 @@
 import dynamic from 'next/dynamic';
 import { useCallback, useEffect, useState } from 'react';
 import Sidebar from '../components/Sidebar';
+import { HEX_RESOLUTIONS } from '../utils/hexData';
+import { getHexDataForResolution } from '../utils/hexChunks';
+import { PointDataset, AgsDataset } from '../utils/fileParsers';
+import { EMPTY_DRAWN_SHAPES } from '../utils/drawing';
+import { CorridorSelection } from '../utils/corridor';
+import { DEFAULT_PALETTE_SETTINGS } from '../utils/palettes';
 
 // Import Map component dynamically to avoid SSR issues with DeckGL
 const Map = dynamic(() => import('../components/Map'), {
@@ -17,20 +23,16 @@ const Map = dynamic(() => import('../components/Map'), {
   )
 });
 
-interface ProcessedData {
-  [resolution: number]: Array<{
-    hexId: string;
-    count: number;
-  }>;
-}
-
 export default function Home() {
-  const [data, setData] = useState<Array<{ hexId: string; count: number }>>([]);
-  const [resolution, setResolution] = useState(3);
-  const [error, setError] = useState<string | null>(null);
   const [uploadedGeoJSON, setUploadedGeoJSON] = useState<any>(null);
+  const [uploadedPoints, setUploadedPoints] = useState<PointDataset | null>(null);
+  const [uploadedAgs, setUploadedAgs] = useState<AgsDataset | null>(null);
+  const [drawnShapes, setDrawnShapes] = useState(EMPTY_DRAWN_SHAPES);
+  const [corridor, setCorridor] = useState<CorridorSelection | null>(null);
+  const [paletteSettings, setPaletteSettings] = useState(DEFAULT_PALETTE_SETTINGS);
   const [isSidebarCollapsed, setIsSidebarCollapsed] = useState(false);
   const [isMobile, setIsMobile] = useState(false);
+  const [error, setError] = useState<string | null>(null);
 
   // Check if screen is mobile on initial load and listen for resize
   useEffect(() => {
@@ -53,34 +55,18 @@ export default function Home() {
     return () => window.removeEventListener('resize', checkIfMobile);
   }, []);
 
-  const toggleSidebar = useCallback(() => {
-    setIsSidebarCollapsed(prev => !prev);
-  }, []);
-
-  const loadResolutionData = useCallback(async (resolution: number) => {
-    try {
-      const res = await fetch(`/boreholedensitymap/data/h3_scale_${resolution}.json`);
-      if (!res.ok) {
-        throw new Error('Failed to load data');
-      }
-      const loadedData = await res.json();
-      if (!Array.isArray(loadedData)) {
-        throw new Error('Invalid data format');
-      }
-      setData(loadedData.map(item => ({
-        hexId: item.cell.toString(),
-        count: item.count
-      })));
-    } catch (error: any) {
+  // The coarsest national file is small and the map needs it anyway, so a missing data build shows up
+  // here rather than as an empty map
+  useEffect(() => {
+    getHexDataForResolution(HEX_RESOLUTIONS[0]).catch((error: any) => {
       console.error('Error loading data:', error);
       setError(error.message);
-    }
+    });
   }, []);
 
-  const handleResolutionChange = (newResolution: number) => {
-    setResolution(newResolution);
-    loadResolutionData(newResolution);
-  };
+  const toggleSidebar = useCallback(() => {
+    setIsSidebarCollapsed(prev => !prev);
+  }, []);
 
   const handleGeoJSONUploaded = (geojsonData: any) => {
     setUploadedGeoJSON(geojsonData);
@@ -91,9 +77,21 @@ export default function Home() {
     }
   };
 
-  useEffect(() => {
-    loadResolutionData(resolution);
-  }, [loadResolutionData, resolution]);
+  const handlePointsUploaded = (dataset: PointDataset) => {
+    setUploadedPoints(dataset);
+
+    if (isMobile) {
+      setIsSidebarCollapsed(true);
+    }
+  };
+
+  const handleAgsUploaded = (dataset: AgsDataset) => {
+    setUploadedAgs(dataset);
+
+    if (isMobile) {
+      setIsSidebarCollapsed(true);
+    }
+  };
 
   if (error) {
     return (
@@ -116,6 +114,13 @@ export default function Home() {
     <div className="w-full h-screen overflow-hidden relative">
       <Sidebar 
         onGeoJSONUploaded={handleGeoJSONUploaded} 
+        onPointsUploaded={handlePointsUploaded}
+        onAgsUploaded={handleAgsUploaded}
+        uploadedGeoJSON={uploadedGeoJSON}
+        drawnShapes={drawnShapes}
+        onClearDrawnShapes={() => setDrawnShapes(EMPTY_DRAWN_SHAPES)}
+        onCorridorChange={setCorridor}
+        paletteSettings={paletteSettings}
         isCollapsed={isSidebarCollapsed} 
         onToggleCollapse={toggleSidebar}
         isMobile={isMobile}
@@ -130,6 +135,13 @@ export default function Home() {
       >
         <Map 
           uploadedGeoJSON={uploadedGeoJSON} 
+          uploadedPoints={uploadedPoints}
+          uploadedAgs={uploadedAgs}
+          drawnShapes={drawnShapes}
+          onDrawnShapesChange={setDrawnShapes}
+          corridor={corridor}
+          paletteSettings={paletteSettings}
+          onPaletteSettingsChange={setPaletteSettings}
           sidebarWidth={sidebarWidth}
           isMobile={isMobile}
         />
@@ -0,0 +1,59 @@
+import React from 'react';
+import { BoreholePointRecord, getScanViewerUrl } from '../utils/pointData';
+
+interface BoreholeCardProps {
+  borehole: BoreholePointRecord;
+  onClose: () => void;
+  sidebarWidth: number;
+  isMobile?: boolean;
+}
+
+const BoreholeCard = ({ borehole, onClose, sidebarWidth, isMobile }: BoreholeCardProps) => {
+  const textSize = isMobile ? 'text-[10px]' : 'text-xs';
+  const linkClass = `px-2 py-1 ${textSize} rounded border border-blue-300 text-blue-700 hover:bg-blue-50`;
+
+  return (
+    <div
+      className="fixed bottom-32 bg-white p-3 rounded-md shadow-md z-10 w-64 transition-all duration-300 ease-in-out"
+      style={{ left: `${sidebarWidth + 20}px` }}
+    >
+      <div className="flex justify-between items-start mb-2">
+        <div>
+          <p className={`${isMobile ? 'text-xs' : 'text-sm'} font-semibold text-gray-800`}>
+            {borehole.reference ?? 'Unreferenced borehole'}
+          </p>
+          {borehole.name && <p className={`${textSize} text-gray-600`}>{borehole.name}</p>}
+        </div>
+        <button onClick={onClose} className="text-gray-500 hover:text-gray-800 leading-none" aria-label="Close borehole details">
+          ×
+        </button>
+      </div>
+
+      <dl className={`grid grid-cols-2 gap-x-2 ${textSize} text-gray-700`}>
+        <dt>Grid reference</dt>
+        <dd className="text-right">{borehole.gridReference ?? 'n/a'}</dd>
+        <dt>Drilled length</dt>
+        <dd className="text-right">{borehole.length !== null ? `${borehole.length} m` : 'Unknown'}</dd>
+        <dt>Date</dt>
+        <dd className="text-right">{borehole.year ?? 'Unknown'}</dd>
+        <dt>AGS log</dt>
+        <dd className="text-right">{borehole.hasAGS ? 'Available' : 'None'}</dd>
+      </dl>
+
+      <div className="flex flex-wrap gap-1 mt-2">
+        {borehole.bgsId !== null && (
+          <a href={getScanViewerUrl(borehole.bgsId)} target="_blank" rel="noopener noreferrer" className={linkClass}>
+            View BGS scans
+          </a>
+        )}
+        {borehole.agsUrl && (
+          <a href={borehole.agsUrl} target="_blank" rel="noopener noreferrer" className={linkClass}>
+            Download AGS
+          </a>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default BoreholeCard;
@@ -0,0 +1,43 @@
+import React, { useEffect, useState } from 'react';
+
+interface CopyLinkButtonProps {
+  getUrl: () => string;
+  isMobile?: boolean;
+}
+
+const CopyLinkButton = ({ getUrl, isMobile }: CopyLinkButtonProps) => {
+  const [copied, setCopied] = useState(false);
+  const textSize = isMobile ? 'text-xs' : 'text-sm';
+
+  useEffect(() => {
+    if (!copied) return;
+    const timeout = setTimeout(() => setCopied(false), 2000);
+    return () => clearTimeout(timeout);
+  }, [copied]);
+
+  const copyLink = async () => {
+    const url = getUrl();
+    try {
+      await navigator.clipboard.writeText(url);
+      setCopied(true);
+    } catch (error) {
+      // The clipboard API needs a secure context and permission, so let the user copy it by hand
+      window.prompt('Copy this link to share the current map view:', url);
+    }
+  };
+
+  return (
+    <button
+      onClick={copyLink}
+      className={`w-full mt-3 px-2 py-1 ${textSize} rounded border border-gray-300 text-gray-700 hover:bg-gray-100 flex items-center justify-center gap-1`}
+      aria-label="Copy a link to this map view"
+    >
+      <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13.828 10.172a4 4 0 00-5.656 0l-4 4a4 4 0 105.656 5.656l1.102-1.101m-.758-4.899a4 4 0 005.656 0l4-4a4 4 0 00-5.656-5.656l-1.1 1.1" />
+      </svg>
+      {copied ? 'Link copied' : 'Copy link'}
+    </button>
+  );
+};
+
+export default CopyLinkButton;
@@ -0,0 +1,155 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  CorridorResult,
+  CorridorSelection,
+  analyseCorridor,
+  formatChainage,
+  getCorridorLines
+} from '../utils/corridor';
+
+interface CorridorPanelProps {
+  geojson: any;
+  onCorridorChange: (corridor: CorridorSelection | null) => void;
+  isMobile?: boolean;
+}
+
+const CHAINAGE_INTERVALS = [
+  { value: 100, label: '100 m' },
+  { value: 1000, label: '1 km' }
+];
+
+const CHART_HEIGHT = 80;
+
+const CorridorPanel: React.FC<CorridorPanelProps> = ({ geojson, onCorridorChange, isMobile = false }) => {
+  const lines = useMemo(() => getCorridorLines(geojson), [geojson]);
+  const [lineIndex, setLineIndex] = useState<number | null>(null);
+  const [bufferMeters, setBufferMeters] = useState(100);
+  const [intervalMeters, setIntervalMeters] = useState(1000);
+  const [result, setResult] = useState<CorridorResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // A new upload replaces the lines, so any previous corridor no longer applies
+  useEffect(() => {
+    setLineIndex(null);
+  }, [lines]);
+
+  useEffect(() => {
+    const line = lineIndex !== null ? lines[lineIndex] : null;
+    if (!line || !(bufferMeters > 0)) {
+      setResult(null);
+      onCorridorChange(null);
+      return;
+    }
+
+    let cancelled = false;
+    onCorridorChange({ line, bufferMeters });
+
+    analyseCorridor(line.coordinates, bufferMeters, intervalMeters)
+      .then(corridorResult => {
+        if (!cancelled) {
+          setResult(corridorResult);
+          setError(null);
+        }
+      })
+      .catch(err => {
+        console.error('Error analysing corridor:', err);
+        if (!cancelled) setError('Could not calculate corridor statistics');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [lines, lineIndex, bufferMeters, intervalMeters, onCorridorChange]);
+
+  if (lines.length === 0) return null;
+
+  const textSize = isMobile ? 'text-[10px]' : 'text-xs';
+  const maxBinCount = result ? Math.max(...result.bins.map(bin => bin.count), 1) : 1;
+
+  return (
+    <div className="mt-3">
+      <h3 className={`${isMobile ? 'text-sm' : 'text-base'} font-semibold mb-1 text-gray-800`}>Corridor Analysis</h3>
+
+      <label className={`block ${textSize} text-gray-700 mb-2`}>
+        Route
+        <select
+          value={lineIndex ?? ''}
+          onChange={(e) => setLineIndex(e.target.value === '' ? null : Number(e.target.value))}
+          className={`w-full p-1 mt-1 ${textSize} rounded border`}
+        >
+          <option value="">Select a line…</option>
+          {lines.map((line, i) => (
+            <option key={`${line.name}-${i}`} value={i}>{line.name}</option>
+          ))}
+        </select>
+      </label>
+
+      <div className="flex gap-2 mb-2">
+        <label className={`flex-1 ${textSize} text-gray-700`}>
+          Buffer each side (m)
+          <input
+            type="number"
+            min={1}
+            value={bufferMeters}
+            onChange={(e) => setBufferMeters(parseFloat(e.target.value))}
+            className={`w-full p-1 mt-1 ${textSize} rounded border`}
+          />
+        </label>
+        <label className={`flex-1 ${textSize} text-gray-700`}>
+          Chainage step
+          <select
+            value={intervalMeters}
+            onChange={(e) => setIntervalMeters(Number(e.target.value))}
+            className={`w-full p-1 mt-1 ${textSize} rounded border`}
+          >
+            {CHAINAGE_INTERVALS.map(interval => (
+              <option key={interval.value} value={interval.value}>{interval.label}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {error && <p className={`${textSize} text-red-500`}>{error}</p>}
+
+      {result && (
+        <div className="p-2 bg-gray-50 border border-gray-200 rounded-md">
+          <dl className={`grid grid-cols-2 gap-x-2 ${textSize} text-gray-700 mb-2`}>
+            <dt>Route length</dt>
+            <dd className="text-right">{(result.lengthMeters / 1000).toFixed(2)} km</dd>
+            <dt>Corridor area</dt>
+            <dd className="text-right">{result.areaKm2.toFixed(2)} km²</dd>
+            <dt>Boreholes</dt>
+            <dd className="text-right">{result.count.toLocaleString()}</dd>
+            <dt>AGS boreholes</dt>
+            <dd className="text-right">{result.AGS_count.toLocaleString()}</dd>
+          </dl>
+
+          <svg
+            viewBox={`0 0 ${result.bins.length} ${CHART_HEIGHT}`}
+            preserveAspectRatio="none"
+            className="w-full h-20 bg-white border border-gray-200"
+          >
+            {result.bins.map((bin, i) => {
+              const height = (bin.count / maxBinCount) * CHART_HEIGHT;
+              return (
+                <rect key={i} x={i + 0.1} y={CHART_HEIGHT - height} width={0.8} height={height} fill="#542788">
+                  <title>{`${formatChainage(bin.start)} to ${formatChainage(bin.end)}: ${bin.count.toLocaleString()} boreholes`}</title>
+                </rect>
+              );
+            })}
+          </svg>
+          <div className={`flex justify-between ${textSize} text-gray-500`}>
+            <span>{formatChainage(0)}</span>
+            <span>{formatChainage(result.lengthMeters)}</span>
+          </div>
+
+          <p className={`mt-1 ${textSize} text-gray-500`}>
+            Counted from the BGS boreholes within the buffer, each placed at the chainage of the nearest point on the route.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CorridorPanel;
@@ -0,0 +1,70 @@
+import React, { useState } from 'react';
+import { CsvTable, CsvColumnMapping, guessColumnMapping } from '../utils/fileParsers';
+import { BNG, WGS84 } from '../utils/projection';
+
+interface CsvColumnMapperProps {
+  table: CsvTable;
+  onConfirm: (mapping: CsvColumnMapping) => void;
+  onCancel: () => void;
+}
+
+const CsvColumnMapper: React.FC<CsvColumnMapperProps> = ({ table, onConfirm, onCancel }) => {
+  const [mapping, setMapping] = useState<CsvColumnMapping>(() => guessColumnMapping(table.fields));
+
+  const isLatLon = mapping.crs === WGS84;
+
+  const renderFieldSelect = (label: string, key: 'xField' | 'yField') => (
+    <label className="block text-xs text-gray-700 mb-2">
+      {label}
+      <select
+        value={mapping[key]}
+        onChange={(e) => setMapping({ ...mapping, [key]: e.target.value })}
+        className="w-full p-1 mt-1 text-xs rounded border"
+      >
+        {table.fields.map(field => (
+          <option key={field} value={field}>{field}</option>
+        ))}
+      </select>
+    </label>
+  );
+
+  return (
+    <div className="mt-2 p-3 bg-gray-50 border border-gray-200 rounded-md">
+      <p className="text-xs font-medium text-gray-800 mb-2">
+        Map the coordinate columns in {table.fileName} ({table.rows.length} rows)
+      </p>
+
+      <label className="block text-xs text-gray-700 mb-2">
+        Coordinate system
+        <select
+          value={mapping.crs}
+          onChange={(e) => setMapping({ ...mapping, crs: e.target.value as CsvColumnMapping['crs'] })}
+          className="w-full p-1 mt-1 text-xs rounded border"
+        >
+          <option value={WGS84}>WGS84 latitude/longitude</option>
+          <option value={BNG}>British National Grid easting/northing</option>
+        </select>
+      </label>
+
+      {renderFieldSelect(isLatLon ? 'Longitude column' : 'Easting column', 'xField')}
+      {renderFieldSelect(isLatLon ? 'Latitude column' : 'Northing column', 'yField')}
+
+      <div className="flex gap-2 mt-3">
+        <button
+          onClick={() => onConfirm(mapping)}
+          className="flex-1 px-2 py-1 text-xs rounded bg-blue-600 text-white hover:bg-blue-700 transition-colors"
+        >
+          Plot points
+        </button>
+        <button
+          onClick={onCancel}
+          className="px-2 py-1 text-xs rounded border border-gray-300 text-gray-700 hover:bg-gray-100 transition-colors"
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default CsvColumnMapper;
@@ -0,0 +1,128 @@
+import React from 'react';
+import { DrawMode, DrawnShape } from '../utils/drawing';
+
+interface DrawingToolbarProps {
+  mode: DrawMode;
+  onModeChange: (mode: DrawMode) => void;
+  draftVertexCount: number;
+  draftRadius: number | null;
+  onFinishPolygon: () => void;
+  selectedShape: DrawnShape | null;
+  onDeleteSelected: () => void;
+  onRadiusChange: (radius: number) => void;
+  sidebarWidth: number;
+  isMobile?: boolean;
+}
+
+const TOOLS: { mode: DrawMode; label: string }[] = [
+  { mode: 'polygon', label: 'Polygon' },
+  { mode: 'rectangle', label: 'Rectangle' },
+  { mode: 'circle', label: 'Circle' },
+  { mode: 'freehand', label: 'Freehand' },
+  { mode: 'edit', label: 'Edit' }
+];
+
+const HINTS: Record<DrawMode, string> = {
+  none: '',
+  polygon: 'Click to add vertices, click the first vertex or Finish to close',
+  rectangle: 'Drag to draw a rectangle',
+  circle: 'Drag out from the centre to set the radius',
+  freehand: 'Hold and drag to trace an outline',
+  edit: 'Click a shape to select it, then drag its vertices'
+};
+
+const formatRadius = (radius: number) =>
+  radius >= 1000 ? `${(radius / 1000).toFixed(2)} km` : `${Math.round(radius)} m`;
+
+const DrawingToolbar = ({
+  mode,
+  onModeChange,
+  draftVertexCount,
+  draftRadius,
+  onFinishPolygon,
+  selectedShape,
+  onDeleteSelected,
+  onRadiusChange,
+  sidebarWidth,
+  isMobile
+}: DrawingToolbarProps) => {
+  const textSize = isMobile ? 'text-[10px]' : 'text-xs';
+
+  return (
+    <div
+      className="fixed top-5 bg-white p-2 rounded-md shadow-md z-10 max-w-xs transition-all duration-300 ease-in-out"
+      style={{ left: `${sidebarWidth + 20}px` }}
+    >
+      <div className="flex flex-wrap gap-1">
+        {TOOLS.map(tool => (
+          <button
+            key={tool.mode}
+            onClick={() => onModeChange(mode === tool.mode ? 'none' : tool.mode)}
+            className={`px-2 py-1 ${textSize} rounded border transition-colors ${
+              mode === tool.mode
+                ? 'bg-blue-600 border-blue-600 text-white'
+                : 'border-gray-300 text-gray-700 hover:bg-gray-100'
+            }`}
+          >
+            {tool.label}
+          </button>
+        ))}
+      </div>
+
+      {mode !== 'none' && (
+        <p className={`mt-2 ${textSize} text-gray-600`}>{HINTS[mode]}</p>
+      )}
+
+      {mode === 'polygon' && draftVertexCount > 0 && (
+        <div className="flex gap-1 mt-2">
+          <button
+            onClick={onFinishPolygon}
+            disabled={draftVertexCount < 3}
+            className={`px-2 py-1 ${textSize} rounded bg-blue-600 text-white disabled:opacity-50`}
+          >
+            Finish
+          </button>
+          <button
+            onClick={() => onModeChange('polygon')}
+            className={`px-2 py-1 ${textSize} rounded border border-gray-300 text-gray-700 hover:bg-gray-100`}
+          >
+            Cancel
+          </button>
+        </div>
+      )}
+
+      {mode === 'circle' && draftRadius !== null && (
+        <p className={`mt-1 ${textSize} text-gray-800`}>Radius: {formatRadius(draftRadius)}</p>
+      )}
+
+      {mode === 'edit' && selectedShape && (
+        <div className={`mt-2 pt-2 border-t border-gray-200 ${textSize} text-gray-700`}>
+          <p className="font-medium mb-1">{selectedShape.properties.name}</p>
+          {selectedShape.properties.shape === 'circle' && (
+            <label className="flex items-center gap-1 mb-1">
+              Radius (m)
+              <input
+                type="number"
+                min={1}
+                value={Math.round(selectedShape.properties.radius)}
+                onChange={(e) => {
+                  const radius = parseFloat(e.target.value);
+                  if (radius > 0) onRadiusChange(radius);
+                }}
+                className="w-20 p-0.5 rounded border"
+              />
+            </label>
+          )}
+          <button
+            onClick={onDeleteSelected}
+            className="px-2 py-1 rounded border border-red-300 text-red-600 hover:bg-red-50"
+          >
+            Delete shape
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DrawingToolbar;
@@ -0,0 +1,24 @@
+import React from 'react';
+
+interface ExportButtonProps {
+  label: string;
+  description: string;
+  onClick: () => void;
+  isMobile?: boolean;
+}
+
+// Opens one of the export dialogs; styled to sit under the copy link button in the layer controls
+const ExportButton = ({ label, description, onClick, isMobile }: ExportButtonProps) => (
+  <button
+    onClick={onClick}
+    className={`w-full mt-2 px-2 py-1 ${isMobile ? 'text-xs' : 'text-sm'} rounded border border-gray-300 text-gray-700 hover:bg-gray-100 flex items-center justify-center gap-1`}
+    aria-label={description}
+  >
+    <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+    </svg>
+    {label}
+  </button>
+);
+
+export default ExportButton;
@@ -0,0 +1,127 @@
+import React, { useState } from 'react';
+import { EXPORT_DPIS, ExportFormat, MapExportOptions, Orientation, PAPER_SIZES, PaperSize } from '../utils/mapExport';
+
+interface ExportDialogProps {
+  defaultTitle: string;
+  onExport: (options: MapExportOptions) => Promise<void>;
+  onClose: () => void;
+}
+
+const ExportDialog = ({ defaultTitle, onExport, onClose }: ExportDialogProps) => {
+  const [options, setOptions] = useState<MapExportOptions>({
+    title: defaultTitle,
+    paper: 'A4',
+    orientation: 'landscape',
+    dpi: 150,
+    format: 'pdf'
+  });
+  const [exporting, setExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const update = (changes: Partial<MapExportOptions>) => setOptions(current => ({ ...current, ...changes }));
+
+  const runExport = async () => {
+    setExporting(true);
+    setError(null);
+    try {
+      await onExport(options);
+      onClose();
+    } catch (e) {
+      console.error('Error exporting map:', e);
+      setError(e instanceof Error ? e.message : 'The map could not be exported');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-30 flex items-center justify-center bg-black/30" onClick={exporting ? undefined : onClose}>
+      <div className="bg-white rounded-md shadow-lg p-4 w-80 max-w-[90vw] text-sm" onClick={e => e.stopPropagation()}>
+        <h2 className="font-semibold mb-3">Export map</h2>
+
+        <label className="block mb-2">
+          Title
+          <input
+            type="text"
+            value={options.title}
+            onChange={e => update({ title: e.target.value })}
+            className="w-full p-1 mt-1 rounded border"
+          />
+        </label>
+
+        <div className="grid grid-cols-2 gap-2 mb-2">
+          <label>
+            Paper
+            <select
+              value={options.paper}
+              onChange={e => update({ paper: e.target.value as PaperSize })}
+              className="w-full p-1 mt-1 rounded border"
+            >
+              {(Object.keys(PAPER_SIZES) as PaperSize[]).map(paper => (
+                <option key={paper} value={paper}>{PAPER_SIZES[paper].label}</option>
+              ))}
+            </select>
+          </label>
+          <label>
+            Orientation
+            <select
+              value={options.orientation}
+              onChange={e => update({ orientation: e.target.value as Orientation })}
+              className="w-full p-1 mt-1 rounded border"
+            >
+              <option value="landscape">Landscape</option>
+              <option value="portrait">Portrait</option>
+            </select>
+          </label>
+          <label>
+            Resolution
+            <select
+              value={options.dpi}
+              onChange={e => update({ dpi: Number(e.target.value) })}
+              className="w-full p-1 mt-1 rounded border"
+            >
+              {EXPORT_DPIS.map(dpi => (
+                <option key={dpi} value={dpi}>{dpi} DPI</option>
+              ))}
+            </select>
+          </label>
+          <label>
+            Format
+            <select
+              value={options.format}
+              onChange={e => update({ format: e.target.value as ExportFormat })}
+              className="w-full p-1 mt-1 rounded border"
+            >
+              <option value="pdf">PDF</option>
+              <option value="png">PNG</option>
+            </select>
+          </label>
+        </div>
+
+        <p className="text-xs text-gray-500 mb-3">
+          The page shows everything currently in view, with the legend, scale bar, north arrow and data attributions.
+        </p>
+        {error && <p className="text-xs text-red-600 mb-2">{error}</p>}
+
+        <div className="flex justify-end gap-2">
+          <button
+            onClick={onClose}
+            disabled={exporting}
+            className="px-3 py-1 rounded border border-gray-300 text-gray-700 hover:bg-gray-100 disabled:opacity-50"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={runExport}
+            disabled={exporting}
+            className="px-3 py-1 rounded bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+          >
+            {exporting ? 'Rendering…' : 'Export'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExportDialog;
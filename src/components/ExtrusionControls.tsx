@@ -0,0 +1,108 @@
+import React from 'react';
+
+export interface ExtrusionControlsProps {
+  is3D: boolean;
+  onToggle3D: () => void;
+  heightMetric: string;
+  heightMetricOptions: { value: string; label: string }[];
+  onHeightMetricChange: (metric: string) => void;
+  pitch: number;
+  bearing: number;
+  onPitchChange: (pitch: number) => void;
+  onBearingChange: (bearing: number) => void;
+  onResetNorth: () => void;
+  isMobile?: boolean;
+}
+
+// Deck's map controller tops out at this pitch
+export const MAX_PITCH = 60;
+
+const ExtrusionControls = ({
+  is3D,
+  onToggle3D,
+  heightMetric,
+  heightMetricOptions,
+  onHeightMetricChange,
+  pitch,
+  bearing,
+  onPitchChange,
+  onBearingChange,
+  onResetNorth,
+  isMobile
+}: ExtrusionControlsProps) => {
+  const textSize = isMobile ? 'text-xs' : 'text-sm';
+  const smallText = isMobile ? 'text-[10px]' : 'text-xs';
+
+  return (
+    <div className="mt-3 pt-2 border-t border-gray-200">
+      <label className={`flex items-center gap-2 cursor-pointer ${textSize}`}>
+        <input
+          type="checkbox"
+          className={isMobile ? 'h-3 w-3' : undefined}
+          checked={is3D}
+          onChange={onToggle3D}
+        />
+        3D View
+      </label>
+
+      {is3D && (
+        <>
+          <label className={`${smallText} mt-1 block`}>
+            Height by
+            <select
+              value={heightMetric}
+              onChange={(e) => onHeightMetricChange(e.target.value)}
+              className={`w-full p-1 ${smallText} rounded border`}
+            >
+              {heightMetricOptions.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </label>
+          <p className={`${smallText} text-gray-500`}>Colour follows Color By</p>
+        </>
+      )}
+
+      <label className={`${smallText} mt-2 flex items-center gap-2`}>
+        <span className="w-12">Pitch</span>
+        <input
+          type="range"
+          min={0}
+          max={MAX_PITCH}
+          step={1}
+          value={pitch}
+          onChange={(e) => onPitchChange(Number(e.target.value))}
+          className="flex-1 h-1"
+        />
+        <span className="w-8 text-right">{Math.round(pitch)}°</span>
+      </label>
+      <label className={`${smallText} mt-1 flex items-center gap-2`}>
+        <span className="w-12">Bearing</span>
+        <input
+          type="range"
+          min={-180}
+          max={180}
+          step={1}
+          value={bearing}
+          onChange={(e) => onBearingChange(Number(e.target.value))}
+          className="flex-1 h-1"
+        />
+        <span className="w-8 text-right">{Math.round(bearing)}°</span>
+      </label>
+
+      <button
+        onClick={onResetNorth}
+        disabled={bearing === 0 && pitch === 0}
+        className={`mt-1 px-2 py-1 ${smallText} rounded border border-gray-300 text-gray-700 hover:bg-gray-100 disabled:opacity-50 flex items-center gap-1`}
+        aria-label="Reset map to north up"
+      >
+        <svg className="h-3 w-3" viewBox="0 0 24 24" style={{ transform: `rotate(${-bearing}deg)` }}>
+          <path d="M12 2 L18 20 L12 16 L6 20 Z" fill="currentColor" />
+        </svg>
+        Reset north
+      </button>
+    </div>
+  );
+};
+
+export default ExtrusionControls;
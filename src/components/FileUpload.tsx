@@ -1,13 +1,28 @@
 import React, { useState, useRef } from 'react';
+import CsvColumnMapper from './CsvColumnMapper';
+import {
+  parseGeoJSON,
+  parseZippedShapefile,
+  parseCsv,
+  pointsFromCsv,
+  parseAgsFiles,
+  CsvTable,
+  CsvColumnMapping,
+  PointDataset,
+  AgsDataset
+} from '../utils/fileParsers';
 
 interface FileUploadProps {
   onFileUploaded: (geojsonData: any) => void;
+  onPointsUploaded: (dataset: PointDataset) => void;
+  onAgsUploaded: (dataset: AgsDataset) => void;
 }
 
-const FileUpload: React.FC<FileUploadProps> = ({ onFileUploaded }) => {
+const FileUpload: React.FC<FileUploadProps> = ({ onFileUploaded, onPointsUploaded, onAgsUploaded }) => {
   const [isDragging, setIsDragging] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [fileName, setFileName] = useState<string | null>(null);
+  const [pendingCsv, setPendingCsv] = useState<CsvTable | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const handleDragOver = (e: React.DragEvent<HTMLDivElement>) => {
@@ -19,27 +34,86 @@ const FileUpload: React.FC<FileUploadProps> = ({ onFileUploaded }) => {
     setIsDragging(false);
   };
 
+  const processShapefile = async (file: File) => {
+    try {
+      onFileUploaded(await parseZippedShapefile(file));
+    } catch (err) {
+      setError('Invalid zipped shapefile');
+      console.error('Error parsing shapefile:', err);
+    }
+  };
+
+  const processCsv = async (file: File) => {
+    try {
+      setPendingCsv(await parseCsv(file));
+    } catch (err) {
+      setError('Invalid CSV file');
+      console.error('Error parsing CSV:', err);
+    }
+  };
+
+  const handleCsvMappingConfirmed = (mapping: CsvColumnMapping) => {
+    try {
+      onPointsUploaded(pointsFromCsv(pendingCsv, mapping));
+      setPendingCsv(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not read coordinates from the CSV file');
+    }
+  };
+
+  const processAgsFiles = async (files: File[]) => {
+    setFileName(files.length === 1 ? files[0].name : `${files.length} AGS files`);
+    setError(null);
+    setPendingCsv(null);
+
+    try {
+      onAgsUploaded(await parseAgsFiles(files));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Invalid AGS file');
+      console.error('Error parsing AGS:', err);
+    }
+  };
+
+  // Several AGS files can be dropped at once; every other format is read one file at a time
+  const processFiles = (fileList: FileList) => {
+    const files = Array.from(fileList);
+    if (files.every(file => file.name.toLowerCase().endsWith('.ags'))) {
+      processAgsFiles(files);
+      return;
+    }
+    processFile(files[0]);
+  };
+
   const processFile = (file: File) => {
-    if (file.type !== 'application/geo+json' && !file.name.endsWith('.geojson')) {
-      setError('Please upload a valid GeoJSON file');
+    const lowerName = file.name.toLowerCase();
+    const isGeoJSON = file.type === 'application/geo+json' || lowerName.endsWith('.geojson');
+    const isZip = lowerName.endsWith('.zip');
+    const isCsv = lowerName.endsWith('.csv');
+
+    if (!isGeoJSON && !isZip && !isCsv) {
+      setError('Please upload a GeoJSON, zipped shapefile, CSV or AGS file');
       return;
     }
 
     setFileName(file.name);
     setError(null);
+    setPendingCsv(null);
+
+    if (isZip) {
+      processShapefile(file);
+      return;
+    }
+
+    if (isCsv) {
+      processCsv(file);
+      return;
+    }
 
     const reader = new FileReader();
     reader.onload = (event) => {
       try {
         if (typeof event.target?.result === 'string') {
-          const geojsonData = JSON.parse(event.target.result);
-          
-          // Basic validation of GeoJSON data
-          if (!geojsonData.type || !['FeatureCollection', 'Feature'].includes(geojsonData.type)) {
-            throw new Error('Invalid GeoJSON format');
-          }
-          
-          onFileUploaded(geojsonData);
+          onFileUploaded(parseGeoJSON(event.target.result));
         }
       } catch (err) {
         setError('Invalid GeoJSON file format');
@@ -59,13 +133,13 @@ const FileUpload: React.FC<FileUploadProps> = ({ onFileUploaded }) => {
     setIsDragging(false);
     
     if (e.dataTransfer.files && e.dataTransfer.files.length > 0) {
-      processFile(e.dataTransfer.files[0]);
+      processFiles(e.dataTransfer.files);
     }
   };
 
   const handleFileInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files.length > 0) {
-      processFile(e.target.files[0]);
+      processFiles(e.target.files);
     }
   };
 
@@ -75,7 +149,7 @@ const FileUpload: React.FC<FileUploadProps> = ({ onFileUploaded }) => {
 
   return (
     <div className="mb-6">
-      <h2 className="text-lg font-semibold mb-2 text-gray-800">Upload GeoJSON</h2>
+      <h2 className="text-lg font-semibold mb-2 text-gray-800">Upload Data</h2>
       
       <div
         className={`border-2 border-dashed rounded-lg p-4 text-center cursor-pointer transition-colors ${
@@ -89,7 +163,8 @@ const FileUpload: React.FC<FileUploadProps> = ({ onFileUploaded }) => {
         <input
           ref={fileInputRef}
           type="file"
-          accept=".geojson,application/geo+json"
+          accept=".geojson,application/geo+json,.zip,application/zip,.csv,text/csv,.ags"
+          multiple
           className="hidden"
           onChange={handleFileInputChange}
         />
@@ -116,18 +191,29 @@ const FileUpload: React.FC<FileUploadProps> = ({ onFileUploaded }) => {
             </p>
           ) : (
             <p className="text-sm text-gray-600">
-              Drag and drop a GeoJSON file here, or click to browse
+              Drag and drop a GeoJSON, zipped shapefile, CSV or AGS files here, or click to browse
             </p>
           )}
         </div>
       </div>
       
+      {pendingCsv && (
+        <CsvColumnMapper
+          table={pendingCsv}
+          onConfirm={handleCsvMappingConfirmed}
+          onCancel={() => {
+            setPendingCsv(null);
+            setFileName(null);
+          }}
+        />
+      )}
+
       {error && (
         <p className="mt-2 text-xs text-red-500">{error}</p>
       )}
       
       <p className="mt-2 text-xs text-gray-500">
-        Upload GeoJSON files to visualize your own data on the map
+        Upload GeoJSON or zipped shapefiles (.shp, .dbf, .prj) to visualize your own data on the map, a CSV of borehole locations to bin them into hexagons, or AGS4 files to plot their LOCA boreholes
       </p>
     </div>
   );
@@ -0,0 +1,122 @@
+import React from 'react';
+import {
+  BoreholeFilters,
+  DEFAULT_FILTERS,
+  LENGTH_RANGE,
+  YEAR_RANGE,
+  isFiltered
+} from '../utils/boreholeAttributes';
+
+interface FilterPanelProps {
+  filters: BoreholeFilters;
+  onFiltersChange: (filters: BoreholeFilters) => void;
+  isMobile?: boolean;
+}
+
+const RangeSlider = ({
+  label,
+  min,
+  max,
+  step,
+  range,
+  unit,
+  onChange,
+  textSize
+}: {
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+  range: [number, number];
+  unit: string;
+  onChange: (min: number, max: number) => void;
+  textSize: string;
+}) => (
+  <div className="mb-2">
+    <div className={`flex justify-between ${textSize} text-gray-700`}>
+      <span>{label}</span>
+      <span>
+        {min}{unit} – {max}{max === range[1] ? '+' : ''}{unit}
+      </span>
+    </div>
+    <input
+      type="range"
+      min={range[0]}
+      max={range[1]}
+      step={step}
+      value={min}
+      onChange={(e) => onChange(Math.min(Number(e.target.value), max), max)}
+      className="w-full h-1"
+      aria-label={`Minimum ${label.toLowerCase()}`}
+    />
+    <input
+      type="range"
+      min={range[0]}
+      max={range[1]}
+      step={step}
+      value={max}
+      onChange={(e) => onChange(min, Math.max(Number(e.target.value), min))}
+      className="w-full h-1"
+      aria-label={`Maximum ${label.toLowerCase()}`}
+    />
+  </div>
+);
+
+const FilterPanel = ({ filters, onFiltersChange, isMobile }: FilterPanelProps) => {
+  const textSize = isMobile ? 'text-[10px]' : 'text-xs';
+
+  return (
+    <div className="mt-3 pt-2 border-t border-gray-200">
+      <div className="flex justify-between items-center mb-1">
+        <span className={`${isMobile ? 'text-xs' : 'text-sm'} font-medium`}>Filters</span>
+        {isFiltered(filters) && (
+          <button
+            onClick={() => onFiltersChange(DEFAULT_FILTERS)}
+            className={`${textSize} text-blue-600 hover:underline`}
+          >
+            Reset
+          </button>
+        )}
+      </div>
+
+      <RangeSlider
+        label="Drilled length"
+        min={filters.minLength}
+        max={filters.maxLength}
+        step={5}
+        range={LENGTH_RANGE}
+        unit=" m"
+        onChange={(minLength, maxLength) => onFiltersChange({ ...filters, minLength, maxLength })}
+        textSize={textSize}
+      />
+      <RangeSlider
+        label="Year"
+        min={filters.minYear}
+        max={filters.maxYear}
+        step={1}
+        range={YEAR_RANGE}
+        unit=""
+        onChange={(minYear, maxYear) => onFiltersChange({ ...filters, minYear, maxYear })}
+        textSize={textSize}
+      />
+
+      <label className={`flex items-center gap-2 cursor-pointer ${textSize}`}>
+        <input
+          type="checkbox"
+          className={isMobile ? 'h-3 w-3' : undefined}
+          checked={filters.agsOnly}
+          onChange={() => onFiltersChange({ ...filters, agsOnly: !filters.agsOnly })}
+        />
+        AGS boreholes only
+      </label>
+
+      {isFiltered(filters) && (
+        <p className={`mt-1 ${textSize} text-gray-500`}>
+          Boreholes with no recorded value are left out of a narrowed range.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default FilterPanel;
@@ -0,0 +1,88 @@
+import React, { useMemo, useState } from 'react';
+import { HexColumns } from '../utils/hexColumns';
+import { HEX_EXPORT_FORMATS, HexExportArea, HexExportFormat, exportHexes, selectHexesInArea } from '../utils/hexExport';
+import { downloadBlob } from '../utils/download';
+
+interface HexExportDialogProps {
+  data: HexColumns;
+  resolution: number;
+  // The current view first, then any drawn or uploaded polygons
+  areas: { label: string; area: HexExportArea }[];
+  defaultAreaIndex?: number;
+  onClose: () => void;
+}
+
+const HexExportDialog = ({ data, resolution, areas, defaultAreaIndex = 0, onClose }: HexExportDialogProps) => {
+  const [areaIndex, setAreaIndex] = useState(defaultAreaIndex);
+  const [format, setFormat] = useState<HexExportFormat>('csv');
+
+  const area = areas[areaIndex]?.area;
+  const selectedCount = useMemo(
+    () => (area ? selectHexesInArea(data, resolution, area).length : 0),
+    [data, resolution, area]
+  );
+
+  const runExport = () => {
+    const { blob, fileName } = exportHexes(data, resolution, area, format);
+    downloadBlob(blob, fileName);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-30 flex items-center justify-center bg-black/30" onClick={onClose}>
+      <div className="bg-white rounded-md shadow-lg p-4 w-80 max-w-[90vw] text-sm" onClick={e => e.stopPropagation()}>
+        <h2 className="font-semibold mb-3">Export hexes</h2>
+
+        <label className="block mb-2">
+          Area
+          <select
+            value={areaIndex}
+            onChange={e => setAreaIndex(Number(e.target.value))}
+            className="w-full p-1 mt-1 rounded border"
+          >
+            {areas.map((option, i) => (
+              <option key={`${option.label}-${i}`} value={i}>{option.label}</option>
+            ))}
+          </select>
+        </label>
+
+        <label className="block mb-2">
+          Format
+          <select
+            value={format}
+            onChange={e => setFormat(e.target.value as HexExportFormat)}
+            className="w-full p-1 mt-1 rounded border"
+          >
+            {HEX_EXPORT_FORMATS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </label>
+
+        <p className="text-xs text-gray-500 mb-3">
+          {selectedCount.toLocaleString()} H3 resolution {resolution} cells with boreholes, with their boundaries and
+          every metric loaded for the map. Polygons take the cells whose centres fall inside them; at the finer
+          resolutions only cells loaded around the current view are included.
+        </p>
+
+        <div className="flex justify-end gap-2">
+          <button
+            onClick={onClose}
+            className="px-3 py-1 rounded border border-gray-300 text-gray-700 hover:bg-gray-100"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={runExport}
+            disabled={selectedCount === 0}
+            className="px-3 py-1 rounded bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+          >
+            Export
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default HexExportDialog;
@@ -0,0 +1,54 @@
+import React from 'react';
+import { Color } from '@deck.gl/core';
+import { Classification, formatBreak, isContinuousScheme } from '../utils/classification';
+import { colorToCss } from '../utils/palettes';
+
+interface LegendScaleProps {
+  classification: Classification;
+  getColor: (fraction: number) => Color;
+  unit: string;
+  isMobile?: boolean;
+}
+
+const GRADIENT_STOPS = 10;
+
+// A continuous ramp with tick values, or one swatch per class with its range
+const LegendScale = ({ classification, getColor, unit, isMobile }: LegendScaleProps) => {
+  const { breaks } = classification;
+  const textSize = isMobile ? 'text-[10px]' : 'text-xs';
+
+  if (isContinuousScheme(classification.scheme)) {
+    const stops = Array.from({ length: GRADIENT_STOPS + 1 }, (_, i) => colorToCss(getColor(i / GRADIENT_STOPS)));
+    return (
+      <div className="flex flex-col gap-1">
+        <div
+          className={`w-full ${isMobile ? 'h-2' : 'h-6'} rounded`}
+          style={{ background: `linear-gradient(to right, ${stops.join(', ')})` }}
+        />
+        <div className={`flex justify-between w-full ${textSize} text-gray-600`}>
+          {breaks.map((value, i) => (
+            <span key={i}>{formatBreak(value)}</span>
+          ))}
+        </div>
+        <div className={`${textSize} text-gray-500 text-right`}>{unit}</div>
+      </div>
+    );
+  }
+
+  const classCount = breaks.length - 1;
+  return (
+    <ul className={`flex flex-col gap-0.5 ${textSize} text-gray-700`}>
+      {breaks.slice(1).map((upper, i) => (
+        <li key={i} className="flex items-center gap-2">
+          <span
+            className={`inline-block ${isMobile ? 'w-3 h-2' : 'w-5 h-3'} rounded-sm`}
+            style={{ background: colorToCss(getColor(classCount > 1 ? i / (classCount - 1) : 1)) }}
+          />
+          <span>{formatBreak(breaks[i])} – {formatBreak(upper)} {unit}</span>
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+export default LegendScale;
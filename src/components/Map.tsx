@@ -1,11 +1,88 @@
-import React, { useEffect, useState, useCallback, useMemo } from 'react';
+import React, { useEffect, useState, useCallback, useMemo, useRef } from 'react';
 import DeckGL from '@deck.gl/react';
-import { MapViewState } from '@deck.gl/core';
-import { GeoJsonLayer, BitmapLayer } from '@deck.gl/layers';
-import { TileLayer } from '@deck.gl/geo-layers';
-import { FeatureCollection, Geometry } from 'geojson';
-import { cellToBoundary } from 'h3-js';
-import * as wellknown from 'wellknown';
+import { MapViewState, Layer, Color, ViewStateChangeParameters, WebMercatorViewport } from '@deck.gl/core';
+import { GeoJsonLayer, ScatterplotLayer, TextLayer, PathLayer } from '@deck.gl/layers';
+import { H3HexagonLayer } from '@deck.gl/geo-layers';
+import { getHexagonEdgeLengthAvg } from 'h3-js';
+import { HexColumns, createHexColumns, getHexRow } from '../utils/hexColumns';
+import { getPointsForBounds, BoreholePointRecord, POINT_ZOOM_THRESHOLD } from '../utils/pointData';
+import { Bounds, getHexDataForBounds, getHexDataForResolution, isChunkedResolution } from '../utils/hexChunks';
+import {
+  BoreholeFilters,
+  DEFAULT_FILTERS,
+  YEAR_RANGE,
+  isFiltered,
+  limitToYear,
+  matchesFilters
+} from '../utils/boreholeAttributes';
+import { processBoreholeData, HexagonData } from '../utils/processData';
+import { PointDataset, AgsDataset, AgsLocation } from '../utils/fileParsers';
+import { compareWithBgs, isComparisonMetric, ComparisonCell } from '../utils/comparison';
+import { DEFAULT_DEEPER_THAN, DepthCell, getPointDepthHexData, isDepthMetric } from '../utils/depthMetrics';
+import { getFineHexData, isFineResolution } from '../utils/fineHexData';
+import {
+  getDepthHexData,
+  getFilteredHexData,
+  getMetricStatistics,
+  getTimelineHexData
+} from '../utils/hexWorkerClient';
+import { SharedState, encodeSharedState, getShareUrl, readSharedState, writeSharedState } from '../utils/urlState';
+import {
+  CLASSIFICATION_SCHEMES,
+  CLASS_COUNTS,
+  Classification,
+  ClassificationScheme,
+  ClassificationSettings,
+  DEFAULT_CLASS_COUNT,
+  isContinuousScheme,
+  normalizeValue,
+  parseManualBreaks
+} from '../utils/classification';
+import {
+  DrawMode,
+  DrawnShape,
+  ShapeType,
+  closeRing,
+  rectangleRing,
+  circleRing,
+  createShape,
+  distanceMeters,
+  moveVertex,
+  resizeCircle,
+  shapeLabel
+} from '../utils/drawing';
+import { CorridorSelection } from '../utils/corridor';
+import { calculateScaleBarDistance } from '../utils/scaleBar';
+import { MapExportLegend, MapExportOptions, exportMap } from '../utils/mapExport';
+import { downloadBlob } from '../utils/download';
+import { createBasemapLayer } from '../utils/basemap';
+import { HexExportArea } from '../utils/hexExport';
+import { getPolygonFeatures } from '../utils/siteSummary';
+import { ColorScale, PaletteSettings, buildColorScale, getPalette, gradientCss, interpolateColor } from '../utils/palettes';
+import DrawingToolbar from './DrawingToolbar';
+import ExtrusionControls, { ExtrusionControlsProps } from './ExtrusionControls';
+import BoreholeCard from './BoreholeCard';
+import CopyLinkButton from './CopyLinkButton';
+import ExportButton from './ExportButton';
+import ExportDialog from './ExportDialog';
+import HexExportDialog from './HexExportDialog';
+import SiteReportDialog from './SiteReportDialog';
+import FilterPanel from './FilterPanel';
+import LegendScale from './LegendScale';
+import PalettePicker from './PalettePicker';
+import TimelinePanel from './TimelinePanel';
+import { FeatureCollection, MultiPolygon, Polygon, Position } from 'geojson';
+
+// Extent of the map on screen, for fetching only the data in view
+const getViewBounds = (viewState: MapViewState): Bounds => {
+  const viewport = new WebMercatorViewport({
+    ...viewState,
+    width: window.innerWidth,
+    height: window.innerHeight
+  });
+  const [west, south, east, north] = viewport.getBounds();
+  return [west, south, east, north];
+};
 
 // Calculate offset for the initial view to account for sidebar
 const calculateLongitudeOffset = (latitude: number, zoom: number, sidebarWidthPixels: number): number => {
@@ -16,97 +93,34 @@ const calculateLongitudeOffset = (latitude: number, zoom: number, sidebarWidthPi
 // Default sidebar width is now a parameter
 const DEFAULT_SIDEBAR_WIDTH = 320;
 
-const COUNT_COLOR_SCALE = [
-  [0, [65, 182, 196, 180]],
-  [0.25, [127, 205, 187, 180]],
-  [0.5, [199, 233, 180, 180]],
-  [0.75, [252, 174, 145, 180]],
-  [1, [215, 25, 28, 180]]
-];
+// Cells with no value for the metric, such as depth where no borehole has a recorded length
+const NO_VALUE_COLOR: Color = [200, 200, 200, 60];
 
-const PERCENTAGE_COLOR_SCALE = [
-  [0, [65, 182, 196, 180]],
-  [0.25, [127, 205, 187, 180]],
-  [0.5, [199, 233, 180, 180]],
-  [0.75, [252, 174, 145, 180]],
-  [1, [215, 25, 28, 180]]
-];
+const USER_ONLY_COLOR: Color = [84, 39, 136, 220];
+const NOT_USER_ONLY_COLOR: Color = [200, 200, 200, 60];
+const USER_ONLY_COLOR_SCALE: ColorScale = [[0, [200, 200, 200, 60]], [1, [84, 39, 136, 220]]];
 
-const interpolateColor = (value: number, colorScale: Array<[number, number[]]>) => {
-  for (let i = 1; i < colorScale.length; i++) {
-    const [prevStop, prevColor] = colorScale[i - 1];
-    const [nextStop, nextColor] = colorScale[i];
-    if (value <= nextStop) {
-      const fraction = (value - prevStop) / (nextStop - prevStop);
-      return prevColor.map((channel, index) => 
-        Math.round(channel * (1 - fraction) + nextColor[index] * fraction)
-      );
-    }
-  }
-  return colorScale[colorScale.length - 1][1];
-};
+// Ratios are coloured on a log2 scale, saturating at eight times more or fewer boreholes
+const MAX_LOG2_RATIO = 3;
+
+const USER_COLOR_SCALE: ColorScale = [
+  [0, [218, 218, 235, 200]],
+  [0.5, [158, 154, 200, 200]],
+  [1, [84, 39, 143, 200]]
+];
 
 const getResolutionForZoom = (zoom: number): number => {
   if (zoom <= 4) return 3;
   if (zoom <= 5) return 4;
   if (zoom <= 6.5) return 5;
   if (zoom <= 8) return 6;
-  if (zoom <= 9.5) return 7;
-  return 7;
-};
-
-const featureCache: Record<number, FeatureCollection<Geometry>> = {};
-
-const getHexDataForResolution = async (resolution: number): Promise<FeatureCollection<Geometry>> => {
-  if (featureCache[resolution]) {
-    return featureCache[resolution];
-  }
-
-  const filePath = `/boreholedensitymap/data/h3_scale_${resolution}.json`;
-  const response = await fetch(filePath);
-  if (!response.ok) {
-    throw new Error(`Failed to load data for resolution ${resolution}`);
-  }
-
-  const rawData = await response.json();
-  
-  const features = rawData.map(item => {
-    let geometry;
-    if (item.wkt) {
-      try {
-        geometry = wellknown.parse(item.wkt);
-      } catch (e) {
-        console.error('Failed to parse WKT:', e);
-        return null;
-      }
-    } else {
-      const boundary = cellToBoundary(item.cell);
-      geometry = {
-        type: 'Polygon' as const,
-        coordinates: [
-          [...boundary.map(([lat, lng]) => [lng, lat]), boundary[0]].map(([lng, lat]) => [lng, lat])
-        ]
-      };
-    }
-
-    return {
-      type: 'Feature' as const,
-      geometry,
-      properties: { 
-        count: item.count,
-        AGS_count: item.AGS_count || 0,
-        AGS_Percentage: item.count > 0 ? ((item.AGS_count || 0) / item.count) * 100 : 0
-      }
-    };
-  }).filter(Boolean);
-
-  const featureCollection: FeatureCollection<Geometry> = {
-    type: 'FeatureCollection',
-    features
-  };
-
-  featureCache[resolution] = featureCollection;
-  return featureCollection;
+  if (zoom <= 10.5) return 7;
+  // Finer than the preprocessed files; binned from the borehole points in view. Starting no wider
+  // than zoom 10.5 keeps the point chunks a view needs within the point cache.
+  if (zoom <= 11.5) return 8;
+  if (zoom <= 12.5) return 9;
+  // Resolution 10 shows up to POINT_ZOOM_THRESHOLD, where the points take over
+  return 10;
 };
 
 const Tooltip = ({
@@ -132,28 +146,226 @@ const Tooltip = ({
       borderRadius: '4px',
       boxShadow: '0 2px 4px rgba(0,0,0,0.3)'
     }}>
-      <div>Total Boreholes: {object.properties.count}</div>
-      <div>AGS Boreholes: {object.properties.AGS_count}</div>
-      <div>AGS Percentage: {object.properties.AGS_Percentage.toFixed(1)}%</div>
+      <div>Total Boreholes: {object.count}</div>
+      <div>AGS Boreholes: {object.AGS_count}</div>
+      <div>AGS Percentage: {object.AGS_Percentage.toFixed(1)}%</div>
+    </div>
+  );
+};
+
+const METRIC_TITLES: Record<string, string> = {
+  count: 'Total Boreholes',
+  density: 'Borehole Density',
+  AGS_count: 'AGS Boreholes',
+  AGS_Percentage: 'AGS Percentage',
+  mean_depth: 'Mean Drilled Depth',
+  median_depth: 'Median Drilled Depth',
+  max_depth: 'Maximum Drilled Depth'
+};
+
+// Metrics that can set hex heights in 3D; the comparison metrics need a diverging axis so are left out
+const HEIGHT_METRICS = ['count', 'density', 'AGS_count', 'AGS_Percentage', 'mean_depth', 'median_depth', 'max_depth']
+  .map(value => ({ value, label: METRIC_TITLES[value] }));
+
+// The tallest column stands this many cell edge lengths high, so relief reads the same at every resolution
+const MAX_HEIGHT_EDGE_LENGTHS = 25;
+
+// Tilt applied when switching into 3D so the extrusion is visible straight away
+const DEFAULT_3D_PITCH = 45;
+
+const METRIC_UNITS: Record<string, string> = {
+  count: 'boreholes per cell',
+  density: 'boreholes per km²',
+  AGS_count: 'AGS boreholes per cell',
+  AGS_Percentage: '% with AGS logs',
+  mean_depth: 'm',
+  median_depth: 'm',
+  max_depth: 'm',
+  deeper_count: 'boreholes per cell'
+};
+
+// Comparison metrics need the sharer's uploaded boreholes, so links only carry the BGS metrics
+const isShareableMetric = (metric: string) => metric in METRIC_TITLES || metric === 'deeper_count';
+
+// Counts are heavily skewed so they start on a log stretch; percentages and depths read better linearly
+const getDefaultScheme = (metric: string): ClassificationScheme =>
+  metric === 'AGS_Percentage' || (isDepthMetric(metric) && metric !== 'deeper_count') ? 'linear' : 'logarithmic';
+
+// Comparison metrics keep their own fixed diverging legends
+const LEGEND_STYLES: Record<string, { title: string; labels: string[] }> = {
+  difference: {
+    title: 'Ours minus BGS',
+    labels: ['More in BGS', 'Equal', 'More in ours']
+  },
+  ratio: {
+    title: 'Ours : BGS',
+    labels: ['1:8', '1:1', '8:1']
+  },
+  user_only: {
+    title: 'Cells only in our data',
+    labels: ['BGS has data', 'Only ours']
+  }
+};
+
+const getLegendTitle = (metric: string, deeperThan: number) =>
+  metric === 'deeper_count' ? `Boreholes Deeper Than ${deeperThan} m` : METRIC_TITLES[metric] || LEGEND_STYLES[metric]?.title;
+
+const MetricLegend = ({
+  selectedMetric,
+  classification,
+  colorScale,
+  isMobile
+}: {
+  selectedMetric: string;
+  classification: Classification | null;
+  colorScale: ColorScale;
+  isMobile?: boolean;
+}) => {
+  const textSize = isMobile ? 'text-[10px]' : 'text-xs';
+
+  if (!classification || LEGEND_STYLES[selectedMetric]) {
+    const legendStyle = LEGEND_STYLES[selectedMetric];
+    if (!legendStyle) return null;
+    return (
+      <div className="flex flex-col gap-1">
+        <div className={`w-full ${isMobile ? 'h-2' : 'h-6'} rounded`} style={{ background: gradientCss(colorScale) }} />
+        <div className={`flex justify-between w-full ${textSize} text-gray-600`}>
+          {legendStyle.labels.map(label => (
+            <span key={label}>{label}</span>
+          ))}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <LegendScale
+      classification={classification}
+      getColor={fraction => interpolateColor(fraction, colorScale)}
+      unit={METRIC_UNITS[selectedMetric] || ''}
+      isMobile={isMobile}
+    />
+  );
+};
+
+const ClassificationControls = ({
+  settings,
+  onChange,
+  isMobile
+}: {
+  settings: ClassificationSettings;
+  onChange: (settings: ClassificationSettings) => void;
+  isMobile?: boolean;
+}) => {
+  const textSize = isMobile ? 'text-xs' : 'text-sm';
+
+  return (
+    <div className="mt-2">
+      <label className={`${textSize} mb-1 block`}>Classification:</label>
+      <div className="flex gap-1">
+        <select
+          value={settings.scheme}
+          onChange={(e) => onChange({ ...settings, scheme: e.target.value as ClassificationScheme })}
+          className={`flex-1 p-1 ${textSize} rounded border`}
+        >
+          {CLASSIFICATION_SCHEMES.map(scheme => (
+            <option key={scheme.value} value={scheme.value}>{scheme.label}</option>
+          ))}
+        </select>
+        {!isContinuousScheme(settings.scheme) && settings.scheme !== 'manual' && (
+          <select
+            value={settings.classCount}
+            onChange={(e) => onChange({ ...settings, classCount: Number(e.target.value) })}
+            className={`p-1 ${textSize} rounded border`}
+            aria-label="Number of classes"
+          >
+            {CLASS_COUNTS.map(count => (
+              <option key={count} value={count}>{count}</option>
+            ))}
+          </select>
+        )}
+      </div>
+      {settings.scheme === 'manual' && (
+        <input
+          type="text"
+          value={settings.manualBreaks}
+          onChange={(e) => onChange({ ...settings, manualBreaks: e.target.value })}
+          placeholder="Breaks, e.g. 10, 50, 100"
+          className={`w-full mt-1 p-1 ${textSize} rounded border`}
+        />
+      )}
     </div>
   );
 };
 
-const Legend = ({ isMobile }: { isMobile?: boolean }) => {
+const MetricOptions = ({ hasUploadedPoints }: { hasUploadedPoints: boolean }) => (
+  <>
+    <option value="count">Total Boreholes</option>
+    <option value="density">Boreholes per km²</option>
+    <option value="AGS_count">AGS Boreholes</option>
+    <option value="AGS_Percentage">AGS Percentage</option>
+    <optgroup label="Drilled depth">
+      <option value="mean_depth">Mean Depth</option>
+      <option value="median_depth">Median Depth</option>
+      <option value="max_depth">Maximum Depth</option>
+      <option value="deeper_count">Boreholes Deeper Than…</option>
+    </optgroup>
+    {hasUploadedPoints && (
+      <optgroup label="Compare uploaded vs BGS">
+        <option value="difference">Difference (ours - BGS)</option>
+        <option value="ratio">Ratio (ours : BGS)</option>
+        <option value="user_only">Only in our data</option>
+      </optgroup>
+    )}
+  </>
+);
+
+const DeeperThanInput = ({
+  value,
+  onChange,
+  isMobile
+}: {
+  value: number;
+  onChange: (value: number) => void;
+  isMobile?: boolean;
+}) => (
+  <label className={`flex items-center gap-2 mt-2 ${isMobile ? 'text-xs' : 'text-sm'}`}>
+    Deeper than
+    <input
+      type="number"
+      min={0}
+      step={5}
+      value={value}
+      onChange={(e) => {
+        const depth = parseFloat(e.target.value);
+        if (depth >= 0) onChange(depth);
+      }}
+      className="w-16 p-0.5 rounded border"
+    />
+    m
+  </label>
+);
+
+const Legend = ({
+  isMobile,
+  selectedMetric,
+  classification,
+  colorScale,
+  deeperThan
+}: {
+  isMobile?: boolean;
+  selectedMetric: string;
+  classification: Classification | null;
+  colorScale: ColorScale;
+  deeperThan: number;
+}) => {
   // Don't show the legend on mobile since it's in the collapsible controls
   if (isMobile) return null;
-  
+
   return (
     <div className="fixed bottom-8 right-8 bg-white p-4 rounded-md shadow-md z-10 max-w-xs w-full sm:max-w-[240px]">
-      <h3 className="m-0 mb-3 text-sm font-semibold">Borehole Density</h3>
-      <div className="flex flex-col gap-2">
-        <div className="w-full h-6 rounded bg-gradient-to-r from-[#41B6C4] via-[#C7E9B4] to-[#D7191C]" />
-        <div className="flex justify-between w-full text-xs text-gray-600">
-          <span>Low</span>
-          <span>Medium</span>
-          <span>High</span>
-        </div>
-      </div>
+      <h3 className="m-0 mb-3 text-sm font-semibold">{getLegendTitle(selectedMetric, deeperThan)}</h3>
+      <MetricLegend selectedMetric={selectedMetric} classification={classification} colorScale={colorScale} />
     </div>
   );
 };
@@ -162,23 +374,73 @@ const LayerControl = ({
   showBasemap, 
   showHexagons, 
   showUploadedGeoJSON,
+  showUserHexagons,
+  showAgsLocations,
+  showDrawnShapes,
   onToggleBasemap, 
   onToggleHexagons,
   onToggleUploadedGeoJSON,
+  onToggleUserHexagons,
+  onToggleAgsLocations,
+  onToggleDrawnShapes,
   selectedMetric,
   onMetricChange,
+  deeperThan,
+  onDeeperThanChange,
+  classificationSettings,
+  onClassificationSettingsChange,
+  paletteSettings,
+  onPaletteSettingsChange,
   hasUploadedData,
+  hasUploadedPoints,
+  hasUploadedAgs,
+  hasDrawnShapes,
+  filters,
+  onFiltersChange,
+  showTimeline,
+  onToggleTimeline,
+  extrusion,
+  getShareUrl,
+  onExportMap,
+  onExportHexes,
+  hasSites,
+  onSiteReport,
   isMobile
 }: { 
   showBasemap: boolean; 
   showHexagons: boolean;
   showUploadedGeoJSON: boolean;
+  showUserHexagons: boolean;
+  showAgsLocations: boolean;
+  showDrawnShapes: boolean;
   onToggleBasemap: () => void; 
   onToggleHexagons: () => void;
   onToggleUploadedGeoJSON: () => void;
+  onToggleUserHexagons: () => void;
+  onToggleAgsLocations: () => void;
+  onToggleDrawnShapes: () => void;
   selectedMetric: string;
   onMetricChange: (metric: string) => void;
+  deeperThan: number;
+  onDeeperThanChange: (depth: number) => void;
+  classificationSettings: ClassificationSettings;
+  onClassificationSettingsChange: (settings: ClassificationSettings) => void;
+  paletteSettings: PaletteSettings;
+  onPaletteSettingsChange: (settings: PaletteSettings) => void;
   hasUploadedData: boolean;
+  hasUploadedPoints: boolean;
+  hasUploadedAgs: boolean;
+  hasDrawnShapes: boolean;
+  filters: BoreholeFilters;
+  onFiltersChange: (filters: BoreholeFilters) => void;
+  showTimeline: boolean;
+  onToggleTimeline: () => void;
+  extrusion: Omit<ExtrusionControlsProps, 'isMobile'>;
+  getShareUrl: () => string;
+  onExportMap: () => void;
+  onExportHexes: () => void;
+  hasSites: boolean;
+  onSiteReport: () => void;
   isMobile?: boolean;
 }) => {
   // Don't show the layer control on mobile since it's in the collapsible controls
@@ -193,10 +455,21 @@ const LayerControl = ({
           onChange={(e) => onMetricChange(e.target.value)}
           className="w-full p-1 text-sm rounded border"
         >
-          <option value="count">Total Boreholes</option>
-          <option value="AGS_count">AGS Boreholes</option>
-          <option value="AGS_Percentage">AGS Percentage</option>
+          <MetricOptions hasUploadedPoints={hasUploadedPoints} />
         </select>
+        {selectedMetric === 'deeper_count' && (
+          <DeeperThanInput value={deeperThan} onChange={onDeeperThanChange} />
+        )}
+        {!isComparisonMetric(selectedMetric) && (
+          <ClassificationControls settings={classificationSettings} onChange={onClassificationSettingsChange} />
+        )}
+        {selectedMetric !== 'user_only' && (
+          <PalettePicker
+            settings={paletteSettings}
+            onChange={onPaletteSettingsChange}
+            type={isComparisonMetric(selectedMetric) ? 'diverging' : 'sequential'}
+          />
+        )}
       </div>
       <div className="mb-2">
         <label className="flex items-center gap-2 cursor-pointer text-sm">
@@ -215,7 +488,7 @@ const LayerControl = ({
             checked={showHexagons}
             onChange={onToggleHexagons}
           />
-          Hexagon Layer
+          BGS Borehole Layer
         </label>
       </div>
       {hasUploadedData && (
@@ -230,52 +503,64 @@ const LayerControl = ({
           </label>
         </div>
       )}
+      {hasUploadedPoints && (
+        <div className="mt-2">
+          <label className="flex items-center gap-2 cursor-pointer text-sm">
+            <input
+              type="checkbox"
+              checked={showUserHexagons}
+              onChange={onToggleUserHexagons}
+            />
+            Uploaded Boreholes
+          </label>
+        </div>
+      )}
+      {hasUploadedAgs && (
+        <div className="mt-2">
+          <label className="flex items-center gap-2 cursor-pointer text-sm">
+            <input
+              type="checkbox"
+              checked={showAgsLocations}
+              onChange={onToggleAgsLocations}
+            />
+            AGS Locations
+          </label>
+        </div>
+      )}
+      {hasDrawnShapes && (
+        <div className="mt-2">
+          <label className="flex items-center gap-2 cursor-pointer text-sm">
+            <input
+              type="checkbox"
+              checked={showDrawnShapes}
+              onChange={onToggleDrawnShapes}
+            />
+            Drawn Areas
+          </label>
+        </div>
+      )}
+      <div className="mt-2">
+        <label className="flex items-center gap-2 cursor-pointer text-sm">
+          <input
+            type="checkbox"
+            checked={showTimeline}
+            onChange={onToggleTimeline}
+          />
+          Timeline
+        </label>
+      </div>
+      <ExtrusionControls {...extrusion} />
+      <FilterPanel filters={filters} onFiltersChange={onFiltersChange} />
+      <CopyLinkButton getUrl={getShareUrl} />
+      <ExportButton label="Export map" description="Export the map as an image or PDF" onClick={onExportMap} />
+      <ExportButton label="Export hexes" description="Export the hexes as CSV, GeoJSON or KML" onClick={onExportHexes} />
+      {hasSites && (
+        <ExportButton label="Site report" description="Create a desk-study report for a drawn or uploaded site" onClick={onSiteReport} />
+      )}
     </div>
   );
 };
 
-// Helper function to calculate the scale bar length based on latitude and zoom
-const calculateScaleBarDistance = (latitude: number, zoom: number): { width: number; distance: number; unit: string } => {
-  // Earth's circumference at the equator in meters
-  const earthCircumference = 40075016.686;
-  
-  // Adjust for latitude (the length of a degree of longitude decreases with increasing latitude)
-  const metersPerPixel = (earthCircumference * Math.cos(latitude * Math.PI / 180)) / (256 * Math.pow(2, zoom));
-  
-  // Target scale bar width in pixels (adjust as needed)
-  const targetWidth = 100;
-  
-  // Calculate distance represented by the target width
-  let distance = targetWidth * metersPerPixel;
-  let unit = 'm';
-  
-  // Round to a nice number and adjust unit if needed
-  if (distance >= 1000) {
-    distance = distance / 1000;
-    unit = 'km';
-  }
-  
-  // Round to a nice number (1, 2, 5, 10, 20, 50, 100, etc.)
-  const magnitudes = [1, 2, 5];
-  const scale = Math.pow(10, Math.floor(Math.log10(distance)));
-  let bestDistance = magnitudes[0] * scale;
-  
-  for (const mag of magnitudes) {
-    if (Math.abs(distance - mag * scale) < Math.abs(distance - bestDistance)) {
-      bestDistance = mag * scale;
-    }
-  }
-  
-  // Calculate the width in pixels for this nice distance
-  const width = bestDistance * (unit === 'km' ? 1000 : 1) / metersPerPixel;
-  
-  return {
-    width,
-    distance: bestDistance,
-    unit
-  };
-};
-
 // ScaleBar component
 const ScaleBar = ({ 
   latitude, 
@@ -328,12 +613,39 @@ const MobileControls = ({
   showBasemap, 
   showHexagons, 
   showUploadedGeoJSON,
+  showUserHexagons,
+  showAgsLocations,
+  showDrawnShapes,
   onToggleBasemap, 
   onToggleHexagons,
   onToggleUploadedGeoJSON,
+  onToggleUserHexagons,
+  onToggleAgsLocations,
+  onToggleDrawnShapes,
   selectedMetric,
   onMetricChange,
+  deeperThan,
+  onDeeperThanChange,
+  classificationSettings,
+  onClassificationSettingsChange,
+  paletteSettings,
+  onPaletteSettingsChange,
   hasUploadedData,
+  hasUploadedPoints,
+  hasUploadedAgs,
+  hasDrawnShapes,
+  filters,
+  onFiltersChange,
+  showTimeline,
+  onToggleTimeline,
+  extrusion,
+  getShareUrl,
+  onExportMap,
+  onExportHexes,
+  hasSites,
+  onSiteReport,
+  classification,
+  colorScale,
   latitude,
   zoom,
   resolution,
@@ -341,12 +653,39 @@ const MobileControls = ({
   showBasemap: boolean; 
   showHexagons: boolean;
   showUploadedGeoJSON: boolean;
+  showUserHexagons: boolean;
+  showAgsLocations: boolean;
+  showDrawnShapes: boolean;
   onToggleBasemap: () => void; 
   onToggleHexagons: () => void;
   onToggleUploadedGeoJSON: () => void;
+  onToggleUserHexagons: () => void;
+  onToggleAgsLocations: () => void;
+  onToggleDrawnShapes: () => void;
   selectedMetric: string;
   onMetricChange: (metric: string) => void;
+  deeperThan: number;
+  onDeeperThanChange: (depth: number) => void;
+  classificationSettings: ClassificationSettings;
+  onClassificationSettingsChange: (settings: ClassificationSettings) => void;
+  paletteSettings: PaletteSettings;
+  onPaletteSettingsChange: (settings: PaletteSettings) => void;
   hasUploadedData: boolean;
+  hasUploadedPoints: boolean;
+  hasUploadedAgs: boolean;
+  hasDrawnShapes: boolean;
+  filters: BoreholeFilters;
+  onFiltersChange: (filters: BoreholeFilters) => void;
+  showTimeline: boolean;
+  onToggleTimeline: () => void;
+  extrusion: Omit<ExtrusionControlsProps, 'isMobile'>;
+  getShareUrl: () => string;
+  onExportMap: () => void;
+  onExportHexes: () => void;
+  hasSites: boolean;
+  onSiteReport: () => void;
+  classification: Classification | null;
+  colorScale: ColorScale;
   latitude: number;
   zoom: number;
   resolution: number;
@@ -381,10 +720,22 @@ const MobileControls = ({
               onChange={(e) => onMetricChange(e.target.value)}
               className="w-full p-1 text-xs rounded border"
             >
-              <option value="count">Total Boreholes</option>
-              <option value="AGS_count">AGS Boreholes</option>
-              <option value="AGS_Percentage">AGS Percentage</option>
+              <MetricOptions hasUploadedPoints={hasUploadedPoints} />
             </select>
+            {selectedMetric === 'deeper_count' && (
+              <DeeperThanInput value={deeperThan} onChange={onDeeperThanChange} isMobile />
+            )}
+            {!isComparisonMetric(selectedMetric) && (
+              <ClassificationControls settings={classificationSettings} onChange={onClassificationSettingsChange} isMobile />
+            )}
+            {selectedMetric !== 'user_only' && (
+              <PalettePicker
+                settings={paletteSettings}
+                onChange={onPaletteSettingsChange}
+                type={isComparisonMetric(selectedMetric) ? 'diverging' : 'sequential'}
+                isMobile
+              />
+            )}
           </div>
           
           <div className="space-y-2 mb-3">
@@ -405,7 +756,7 @@ const MobileControls = ({
                 checked={showHexagons}
                 onChange={onToggleHexagons}
               />
-              Hexagon Layer
+              BGS Borehole Layer
             </label>
             
             {hasUploadedData && (
@@ -419,6 +770,64 @@ const MobileControls = ({
                 Uploaded GeoJSON
               </label>
             )}
+
+            {hasUploadedPoints && (
+              <label className="flex items-center gap-2 cursor-pointer text-xs">
+                <input
+                  type="checkbox"
+                  className="h-3 w-3"
+                  checked={showUserHexagons}
+                  onChange={onToggleUserHexagons}
+                />
+                Uploaded Boreholes
+              </label>
+            )}
+
+            {hasUploadedAgs && (
+              <label className="flex items-center gap-2 cursor-pointer text-xs">
+                <input
+                  type="checkbox"
+                  className="h-3 w-3"
+                  checked={showAgsLocations}
+                  onChange={onToggleAgsLocations}
+                />
+                AGS Locations
+              </label>
+            )}
+
+            {hasDrawnShapes && (
+              <label className="flex items-center gap-2 cursor-pointer text-xs">
+                <input
+                  type="checkbox"
+                  className="h-3 w-3"
+                  checked={showDrawnShapes}
+                  onChange={onToggleDrawnShapes}
+                />
+                Drawn Areas
+              </label>
+            )}
+
+            <label className="flex items-center gap-2 cursor-pointer text-xs">
+              <input
+                type="checkbox"
+                className="h-3 w-3"
+                checked={showTimeline}
+                onChange={onToggleTimeline}
+              />
+              Timeline
+            </label>
+
+            <ExtrusionControls {...extrusion} isMobile />
+          </div>
+
+          <div className="mb-3">
+            <FilterPanel filters={filters} onFiltersChange={onFiltersChange} isMobile />
+            <CopyLinkButton getUrl={getShareUrl} isMobile />
+            <ExportButton label="Export map" description="Export the map as an image or PDF" onClick={onExportMap} isMobile />
+            <ExportButton label="Export hexes" description="Export the hexes as CSV, GeoJSON or KML" onClick={onExportHexes} isMobile />
+            {hasSites && (
+              <ExportButton label="Site report" description="Create a desk-study report for a drawn or uploaded site" onClick={onSiteReport} isMobile />
+            )}
           </div>
           
           {/* Compact scale and info panel */}
@@ -435,11 +844,8 @@ const MobileControls = ({
               </span>
             </div>
             
-            <div className="h-2 w-full rounded-sm bg-gradient-to-r from-[#41B6C4] via-[#C7E9B4] to-[#D7191C]"></div>
-            <div className="flex justify-between text-[10px] text-gray-600">
-              <span>Low</span>
-              <span>High</span>
-            </div>
+            <div className="text-[10px] font-medium text-gray-700">{getLegendTitle(selectedMetric, deeperThan)}</div>
+            <MetricLegend selectedMetric={selectedMetric} classification={classification} colorScale={colorScale} isMobile />
           </div>
         </div>
       )}
@@ -449,17 +855,36 @@ const MobileControls = ({
 
 interface MapComponentProps {
   uploadedGeoJSON?: any;
+  uploadedPoints?: PointDataset | null;
+  uploadedAgs?: AgsDataset | null;
+  drawnShapes: FeatureCollection<Polygon, DrawnShape['properties']>;
+  onDrawnShapesChange: (shapes: FeatureCollection<Polygon, DrawnShape['properties']>) => void;
+  corridor?: CorridorSelection | null;
+  paletteSettings: PaletteSettings;
+  onPaletteSettingsChange: (settings: PaletteSettings) => void;
   sidebarWidth?: number;
   isMobile?: boolean;
 }
 
 export default function MapComponent({ 
   uploadedGeoJSON, 
+  uploadedPoints,
+  uploadedAgs,
+  drawnShapes,
+  onDrawnShapesChange,
+  corridor,
+  paletteSettings,
+  onPaletteSettingsChange,
   sidebarWidth = DEFAULT_SIDEBAR_WIDTH,
   isMobile = false
 }: MapComponentProps) {
+  // A shared link restores the view, metric, layers and classification it was copied with
+  const sharedState = useMemo(() => readSharedState(), []);
+  const initialMetric = sharedState.metric && isShareableMetric(sharedState.metric) ? sharedState.metric : 'count';
+
   // Create initial view state with the appropriate offset based on sidebar width
-  const initialViewState = useMemo(() => {
+  const initialViewState = useMemo((): MapViewState => {
+    if (sharedState.view) return { ...sharedState.view };
     const baseLatitude = 54.0;
     const baseZoom = 5;
     return {
@@ -469,51 +894,341 @@ export default function MapComponent({
       pitch: 0,
       bearing: 0
     };
-  }, [sidebarWidth]);
+  }, [sidebarWidth, sharedState]);
   
   const [currentResolution, setCurrentResolution] = useState(getResolutionForZoom(initialViewState.zoom));
-  const [hexData, setHexData] = useState<FeatureCollection<Geometry> | null>(null);
-  const [viewState, setViewState] = useState(initialViewState);
+  const [hexData, setHexData] = useState<HexColumns | null>(null);
+  const [timelineScaleData, setTimelineScaleData] = useState<HexColumns | null>(null);
+  const [viewState, setViewState] = useState<MapViewState>(initialViewState);
+  const [viewBounds, setViewBounds] = useState<Bounds>(() => getViewBounds(initialViewState));
   const [maxCount, setMaxCount] = useState(100);
-  const [showBasemap, setShowBasemap] = useState(true);
-  const [showHexagons, setShowHexagons] = useState(true);
-  const [showUploadedGeoJSON, setShowUploadedGeoJSON] = useState(true);
+  const [classification, setClassification] = useState<Classification | null>(null);
+  const [showBasemap, setShowBasemap] = useState(sharedState.layers?.basemap ?? true);
+  const [showHexagons, setShowHexagons] = useState(sharedState.layers?.hexagons ?? true);
+  const [showUploadedGeoJSON, setShowUploadedGeoJSON] = useState(sharedState.layers?.geojson ?? true);
+  const [showUserHexagons, setShowUserHexagons] = useState(sharedState.layers?.uploaded ?? true);
+  const [showAgsLocations, setShowAgsLocations] = useState(sharedState.layers?.ags ?? true);
+  const [showDrawnShapes, setShowDrawnShapes] = useState(sharedState.layers?.drawn ?? true);
+  const [drawMode, setDrawMode] = useState<DrawMode>('none');
+  const [draftVertices, setDraftVertices] = useState<Position[]>([]);
+  const [draftCursor, setDraftCursor] = useState<Position | null>(null);
+  const [draftAnchor, setDraftAnchor] = useState<Position | null>(null);
+  const [draftRing, setDraftRing] = useState<Position[] | null>(null);
+  const [draftRadius, setDraftRadius] = useState<number | null>(null);
+  const [selectedShapeIndex, setSelectedShapeIndex] = useState<number | null>(null);
+  const [draggingVertex, setDraggingVertex] = useState<number | null>(null);
+  const lastFreehandPixel = useRef<[number, number] | null>(null);
   const [hoverInfo, setHoverInfo] = useState<{object: any; x: number; y: number} | null>(null);
-  const [selectedMetric, setSelectedMetric] = useState('count');
+  const [selectedMetric, setSelectedMetric] = useState(initialMetric);
+  const [filters, setFilters] = useState<BoreholeFilters>(DEFAULT_FILTERS);
+  const [timelineYear, setTimelineYear] = useState<number | null>(null);
+  const [exportOpen, setExportOpen] = useState(false);
+  const [hexExportOpen, setHexExportOpen] = useState(false);
+  const [siteReportOpen, setSiteReportOpen] = useState(false);
+  const [deeperThan, setDeeperThan] = useState(sharedState.deeperThan ?? DEFAULT_DEEPER_THAN);
+  const sharedHeightMetric = HEIGHT_METRICS.find(option => option.value === sharedState.heightMetric)?.value;
+  const [is3D, setIs3D] = useState(!!sharedHeightMetric);
+  const [heightMetric, setHeightMetric] = useState(sharedHeightMetric ?? 'count');
+  const [classificationSettings, setClassificationSettings] = useState<ClassificationSettings>(
+    sharedState.classification ?? {
+      scheme: getDefaultScheme(initialMetric),
+      classCount: DEFAULT_CLASS_COUNT,
+      manualBreaks: ''
+    }
+  );
+
+  const changeMetric = useCallback((metric: string) => {
+    setSelectedMetric(metric);
+    setClassificationSettings(settings => ({ ...settings, scheme: getDefaultScheme(metric) }));
+  }, []);
+  const depthMetricSelected = isDepthMetric(selectedMetric) || (is3D && isDepthMetric(heightMetric));
 
-  // Update the view when the sidebar width changes
+  const activeFilters = useMemo(
+    () => timelineYear === null ? filters : limitToYear(filters, timelineYear),
+    [filters, timelineYear]
+  );
+  const [boreholePoints, setBoreholePoints] = useState<BoreholePointRecord[]>([]);
+  const [selectedBorehole, setSelectedBorehole] = useState<BoreholePointRecord | null>(null);
+
+  // Update the view when the sidebar width changes. The initial view already allows for it, and
+  // recentring on mount would lose a view restored from a shared link.
+  const sidebarWidthApplied = useRef(sidebarWidth);
   useEffect(() => {
+    if (sidebarWidthApplied.current === sidebarWidth) return;
+    sidebarWidthApplied.current = sidebarWidth;
     setViewState(prev => ({
       ...prev,
       longitude: -2.5 + calculateLongitudeOffset(prev.latitude, prev.zoom, sidebarWidth)
     }));
   }, [sidebarWidth]);
 
+  // Wait for panning to settle before working out which chunks are in view
+  useEffect(() => {
+    const timeout = setTimeout(() => setViewBounds(getViewBounds(viewState)), 200);
+    return () => clearTimeout(timeout);
+  }, [viewState]);
+
+  // Fine preaggregated scales are fetched by parent cell for the area in view; recounts cover the whole country
+  const hexBounds = isChunkedResolution(currentResolution) && !depthMetricSelected && !isFiltered(filters)
+    ? viewBounds
+    : null;
+
+  // Depth metrics and filtered counts are rebuilt from individual boreholes; otherwise use the preaggregated scales
+  const loadHexData = useCallback(async (cellFilters: BoreholeFilters): Promise<HexColumns> => {
+    if (isFineResolution(currentResolution)) {
+      return depthMetricSelected
+        ? getPointDepthHexData(boreholePoints, currentResolution, cellFilters, deeperThan)
+        : getFineHexData(boreholePoints, currentResolution, cellFilters);
+    }
+    if (depthMetricSelected) return getDepthHexData(currentResolution, cellFilters, deeperThan);
+    if (isFiltered(cellFilters)) return getFilteredHexData(currentResolution, cellFilters);
+    return hexBounds ? getHexDataForBounds(currentResolution, hexBounds) : getHexDataForResolution(currentResolution);
+  }, [currentResolution, depthMetricSelected, deeperThan, hexBounds, boreholePoints]);
+
+  // Plain counts step through the timeline from a year index rather than a recount per year
+  const steppedTimeline = timelineYear !== null && !depthMetricSelected && !isFineResolution(currentResolution);
+
   useEffect(() => {
+    let cancelled = false;
+
     const fetchHexData = async () => {
       try {
-        const data = await getHexDataForResolution(currentResolution);
-        setHexData(data);
-        if (data?.features) {
-          const newMaxCount = Math.max(...data.features.map(f => f.properties[selectedMetric] || 0));
-          setMaxCount(newMaxCount);
-        }
+        const data = steppedTimeline
+          ? await getTimelineHexData(currentResolution, filters, timelineYear)
+          : await loadHexData(activeFilters);
+        if (!cancelled) setHexData(data);
       } catch (error) {
         console.error('Error fetching hex data:', error);
       }
     };
 
-    fetchHexData();
-  }, [currentResolution, selectedMetric]);
+    // Let slider drags settle before recounting
+    const recounting = !steppedTimeline && (isFiltered(activeFilters) || depthMetricSelected);
+    const timeout = setTimeout(fetchHexData, recounting ? 150 : 0);
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [loadHexData, steppedTimeline, currentResolution, activeFilters, filters, timelineYear, depthMetricSelected]);
 
+  // Hold the colour scale at present-day counts so the timeline shows coverage filling in. Only the
+  // timeline being on matters here, so stepping through the years does not reload it.
+  const timelineActive = timelineYear !== null;
   useEffect(() => {
-    if (hexData?.features) {
-      const newMaxCount = Math.max(...hexData.features.map(f => f.properties[selectedMetric] || 0));
-      setMaxCount(newMaxCount);
+    if (!timelineActive) {
+      setTimelineScaleData(null);
+      return;
     }
-  }, [hexData, selectedMetric]);
 
-  const onViewStateChange = useCallback(({viewState}: {viewState: MapViewState}) => {
+    let cancelled = false;
+    loadHexData(filters)
+      .then(data => {
+        if (!cancelled) setTimelineScaleData(data);
+      })
+      .catch(error => console.error('Error fetching hex data:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [timelineActive, loadHexData, filters]);
+
+  // Uploaded points are binned at the same resolution as the BGS layer so the two line up as the user zooms
+  const userHexData = useMemo(() => {
+    if (!uploadedPoints) return null;
+    return processBoreholeData(uploadedPoints.points, currentResolution);
+  }, [uploadedPoints, currentResolution]);
+
+  // Chunked scales only hold the chunks in view, so compare against the chunks under the uploaded cells
+  // too; otherwise uploaded cells outside the view would count as having no BGS boreholes
+  const [comparisonData, setComparisonData] = useState<HexColumns | null>(null);
+  useEffect(() => {
+    if (!hexData || !userHexData) {
+      setComparisonData(null);
+      return;
+    }
+
+    let cancelled = false;
+    const reference = hexBounds && !steppedTimeline
+      ? getHexDataForBounds(currentResolution, hexBounds, userHexData.map(cell => cell.hexId))
+      : Promise.resolve(hexData);
+    reference
+      .then(data => {
+        if (!cancelled) setComparisonData(compareWithBgs(data, userHexData));
+      })
+      .catch(error => console.error('Error loading comparison data:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [hexData, userHexData, hexBounds, steppedTimeline, currentResolution]);
+
+  // Comparison metrics colour the union of BGS and uploaded cells; everything else colours the BGS cells
+  const showComparison = isComparisonMetric(selectedMetric) && !!comparisonData;
+  const layerData: HexColumns | null = showComparison ? comparisonData : hexData;
+
+  const scaleData = showComparison ? layerData : timelineYear === null ? hexData : timelineScaleData;
+
+  // The maximum and class breaks are worked out in the hex worker; the previous classification stays
+  // on screen until they arrive
+  useEffect(() => {
+    if (!scaleData) return;
+
+    let cancelled = false;
+    // A copy, since the values are handed over to the worker
+    const column = scaleData.metrics[selectedMetric];
+    const values = column ? column.slice() : new Float64Array(scaleData.hex.length).fill(NaN);
+
+    getMetricStatistics(values, {
+      scheme: classificationSettings.scheme,
+      classCount: classificationSettings.classCount,
+      manualBreaks: parseManualBreaks(classificationSettings.manualBreaks),
+      max: selectedMetric === 'AGS_Percentage' ? 100 : undefined,
+      classified: !isComparisonMetric(selectedMetric)
+    })
+      .then(statistics => {
+        if (cancelled) return;
+        setMaxCount(statistics.maxAbs);
+        setClassification(statistics.classification);
+      })
+      .catch(error => console.error('Error classifying hex data:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [scaleData, selectedMetric, classificationSettings]);
+
+  const sequentialScale = useMemo(
+    () => buildColorScale(getPalette(paletteSettings.sequential), paletteSettings),
+    [paletteSettings]
+  );
+  const divergingScale = useMemo(
+    () => buildColorScale(getPalette(paletteSettings.diverging), paletteSettings),
+    [paletteSettings]
+  );
+
+  // The one ramp the hex layer and both legends draw from for the selected metric
+  const metricColorScale = selectedMetric === 'user_only'
+    ? USER_ONLY_COLOR_SCALE
+    : isComparisonMetric(selectedMetric) ? divergingScale : sequentialScale;
+
+  const toggleTimeline = useCallback(() => {
+    setTimelineYear(year => year === null ? YEAR_RANGE[1] : null);
+  }, []);
+
+  // Heights are scaled like colours, against present-day values, so columns grow through the timeline
+  const maxHeight = useMemo(() => {
+    const values = scaleData?.metrics[heightMetric];
+    if (!is3D || !values) return 0;
+    return values.reduce((max, value) => Math.max(max, value || 0), 0);
+  }, [is3D, scaleData, heightMetric]);
+  const maxElevation = getHexagonEdgeLengthAvg(currentResolution, 'm') * MAX_HEIGHT_EDGE_LENGTHS;
+
+  const getHexagonElevation = useCallback((value: number) => {
+    if (!value || maxHeight <= 0) return 0;
+    return (value / maxHeight) * maxElevation;
+  }, [maxHeight, maxElevation]);
+
+  const toggle3D = useCallback(() => {
+    const enable = !is3D;
+    setIs3D(enable);
+    setViewState(prev => ({ ...prev, pitch: enable ? DEFAULT_3D_PITCH : 0, bearing: enable ? prev.bearing : 0 }));
+  }, [is3D]);
+
+  const extrusion: Omit<ExtrusionControlsProps, 'isMobile'> = {
+    is3D,
+    onToggle3D: toggle3D,
+    heightMetric,
+    heightMetricOptions: HEIGHT_METRICS,
+    onHeightMetricChange: setHeightMetric,
+    pitch: viewState.pitch,
+    bearing: viewState.bearing,
+    onPitchChange: pitch => setViewState(prev => ({ ...prev, pitch })),
+    onBearingChange: bearing => setViewState(prev => ({ ...prev, bearing })),
+    onResetNorth: () => setViewState(prev => ({ ...prev, bearing: 0, pitch: 0 }))
+  };
+
+  const currentSharedState: SharedState = {
+    view: {
+      longitude: viewState.longitude,
+      latitude: viewState.latitude,
+      zoom: viewState.zoom,
+      pitch: viewState.pitch || 0,
+      bearing: viewState.bearing || 0
+    },
+    metric: isShareableMetric(selectedMetric) ? selectedMetric : 'count',
+    deeperThan,
+    layers: {
+      basemap: showBasemap,
+      hexagons: showHexagons,
+      geojson: showUploadedGeoJSON,
+      uploaded: showUserHexagons,
+      ags: showAgsLocations,
+      drawn: showDrawnShapes
+    },
+    classification: classificationSettings,
+    heightMetric: is3D ? heightMetric : null
+  };
+  const sharedHash = encodeSharedState(currentSharedState);
+
+  // Keep the address bar in step once panning settles, so the plain page URL can be shared too
+  useEffect(() => {
+    const timeout = setTimeout(() => writeSharedState(sharedHash), 300);
+    return () => clearTimeout(timeout);
+  }, [sharedHash]);
+
+  // A link pasted into an open tab only changes the hash, so apply it without a reload
+  useEffect(() => {
+    const applySharedState = () => {
+      const shared = readSharedState();
+      if (shared.view) {
+        setViewState(prev => ({ ...prev, ...shared.view }));
+        setCurrentResolution(getResolutionForZoom(shared.view.zoom));
+      }
+      if (shared.metric && isShareableMetric(shared.metric)) setSelectedMetric(shared.metric);
+      if (shared.deeperThan !== undefined) setDeeperThan(shared.deeperThan);
+      if (shared.classification) setClassificationSettings(shared.classification);
+      if (shared.layers) {
+        setShowBasemap(shared.layers.basemap);
+        setShowHexagons(shared.layers.hexagons);
+        setShowUploadedGeoJSON(shared.layers.geojson);
+        setShowUserHexagons(shared.layers.uploaded);
+        setShowAgsLocations(shared.layers.ags);
+        setShowDrawnShapes(shared.layers.drawn);
+      }
+      if (shared.heightMetric !== undefined) {
+        const height = HEIGHT_METRICS.find(option => option.value === shared.heightMetric)?.value;
+        setIs3D(!!height);
+        if (height) setHeightMetric(height);
+      }
+    };
+
+    window.addEventListener('hashchange', applySharedState);
+    return () => window.removeEventListener('hashchange', applySharedState);
+  }, []);
+
+  // Past the finest hex scale the BGS layer switches to individual boreholes, fetched by parent cell
+  const showPoints = viewState.zoom > POINT_ZOOM_THRESHOLD;
+  const needsPoints = showPoints || isFineResolution(currentResolution);
+
+  useEffect(() => {
+    if (!needsPoints || !showHexagons) return;
+
+    let cancelled = false;
+    getPointsForBounds(viewBounds)
+      .then(points => {
+        if (!cancelled) setBoreholePoints(points);
+      })
+      .catch(error => console.error('Error fetching borehole points:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [needsPoints, showHexagons, viewBounds]);
+
+  // The pinned card belongs to the point layer, so drop it when the points are hidden
+  useEffect(() => {
+    if (!showPoints || !showHexagons) setSelectedBorehole(null);
+  }, [showPoints, showHexagons]);
+
+  const onViewStateChange = useCallback(({ viewState }: ViewStateChangeParameters) => {
     setViewState(viewState);
     const newResolution = getResolutionForZoom(viewState.zoom);
     if (newResolution !== currentResolution) {
@@ -521,49 +1236,205 @@ export default function MapComponent({
     }
   }, [currentResolution]);
 
-  const basemapLayer = useMemo(() => new TileLayer({
-    id: 'basemap',
-    data: 'https://tile.openstreetmap.org/{z}/{x}/{y}.png',
-    minZoom: 0,
-    maxZoom: 19,
-    tileSize: 256,
-    visible: showBasemap,
-    renderSubLayers: props => {
-      const {
-        bbox: { west, south, east, north }
-      } = props.tile;
-
-      return new BitmapLayer(props, {
-        data: null,
-        image: props.data,
-        bounds: [west, south, east, north]
-      });
+  const resetDraft = useCallback(() => {
+    setDraftVertices([]);
+    setDraftCursor(null);
+    setDraftAnchor(null);
+    setDraftRing(null);
+    setDraftRadius(null);
+    setDraggingVertex(null);
+    lastFreehandPixel.current = null;
+  }, []);
+
+  const changeDrawMode = useCallback((mode: DrawMode) => {
+    setDrawMode(mode);
+    setSelectedShapeIndex(null);
+    resetDraft();
+  }, [resetDraft]);
+
+  // Only ever counts up, so deleting a shape and drawing another never repeats a name
+  const shapeNumber = useRef(0);
+
+  const addShape = useCallback((shape: ShapeType, ring: Position[], extra: Partial<DrawnShape['properties']> = {}) => {
+    shapeNumber.current += 1;
+    const name = `${shapeLabel(shape)} ${shapeNumber.current}`;
+    onDrawnShapesChange({
+      ...drawnShapes,
+      features: [...drawnShapes.features, createShape(shape, ring, name, extra)]
+    });
+  }, [drawnShapes, onDrawnShapesChange]);
+
+  const replaceShape = useCallback((index: number, shape: DrawnShape) => {
+    onDrawnShapesChange({
+      ...drawnShapes,
+      features: drawnShapes.features.map((feature, i) => i === index ? shape : feature)
+    });
+  }, [drawnShapes, onDrawnShapesChange]);
+
+  const finishPolygon = useCallback(() => {
+    if (draftVertices.length >= 3) {
+      addShape('polygon', closeRing(draftVertices));
     }
-  }), [showBasemap]);
+    resetDraft();
+  }, [draftVertices, addShape, resetDraft]);
 
-  const getHexagonColor = useCallback((feature: any) => {
-    const value = feature.properties[selectedMetric];
+  const handleMapClick = useCallback((info: any) => {
+    if (drawMode === 'polygon' && info.coordinate) {
+      // Clicking back on the first vertex closes the polygon
+      if (draftVertices.length >= 3 && info.viewport) {
+        const [firstX, firstY] = info.viewport.project(draftVertices[0]);
+        if (Math.hypot(firstX - info.x, firstY - info.y) < 10) {
+          finishPolygon();
+          return;
+        }
+      }
+      setDraftVertices([...draftVertices, info.coordinate]);
+    } else if (drawMode === 'edit' && info.layer?.id !== 'drawn-vertices') {
+      setSelectedShapeIndex(info.layer?.id === 'drawn-shapes' ? info.index : null);
+    } else if (drawMode === 'none') {
+      setSelectedBorehole(info.layer?.id === 'borehole-points' ? info.object : null);
+    }
+  }, [drawMode, draftVertices, finishPolygon]);
+
+  const handleMapHover = useCallback((info: any) => {
+    if (drawMode === 'polygon' && draftVertices.length > 0) {
+      setDraftCursor(info.coordinate || null);
+    }
+  }, [drawMode, draftVertices.length]);
+
+  const handleDragStart = useCallback((info: any) => {
+    if (!info.coordinate) return;
+    if (drawMode === 'rectangle' || drawMode === 'circle') {
+      setDraftAnchor(info.coordinate);
+    } else if (drawMode === 'freehand') {
+      setDraftRing([info.coordinate]);
+      lastFreehandPixel.current = [info.x, info.y];
+    } else if (drawMode === 'edit' && info.layer?.id === 'drawn-vertices') {
+      setDraggingVertex(info.index);
+    }
+  }, [drawMode]);
+
+  const handleDrag = useCallback((info: any) => {
+    if (!info.coordinate) return;
+    if (drawMode === 'rectangle' && draftAnchor) {
+      setDraftRing(rectangleRing(draftAnchor, info.coordinate));
+    } else if (drawMode === 'circle' && draftAnchor) {
+      const radius = distanceMeters(draftAnchor, info.coordinate);
+      setDraftRadius(radius);
+      setDraftRing(circleRing(draftAnchor, radius));
+    } else if (drawMode === 'freehand' && draftRing) {
+      // Skip pointer samples a few pixels apart so traced outlines stay a manageable size
+      const [lastX, lastY] = lastFreehandPixel.current || [info.x, info.y];
+      if (Math.hypot(info.x - lastX, info.y - lastY) >= 4) {
+        setDraftRing([...draftRing, info.coordinate]);
+        lastFreehandPixel.current = [info.x, info.y];
+      }
+    } else if (drawMode === 'edit' && draggingVertex !== null && selectedShapeIndex !== null) {
+      replaceShape(selectedShapeIndex, moveVertex(drawnShapes.features[selectedShapeIndex], draggingVertex, info.coordinate));
+    }
+  }, [drawMode, draftAnchor, draftRing, draggingVertex, selectedShapeIndex, drawnShapes, replaceShape]);
+
+  const handleDragEnd = useCallback(() => {
+    if (drawMode === 'rectangle' && draftRing) {
+      addShape('rectangle', draftRing);
+    } else if (drawMode === 'circle' && draftRing && draftRadius > 0) {
+      addShape('circle', draftRing, { center: draftAnchor, radius: draftRadius });
+    } else if (drawMode === 'freehand' && draftRing && draftRing.length >= 3) {
+      addShape('freehand', closeRing(draftRing));
+    }
+    if (drawMode !== 'polygon') {
+      resetDraft();
+    }
+  }, [drawMode, draftRing, draftRadius, draftAnchor, addShape, resetDraft]);
+
+  // Drag gestures draw or move vertices instead of panning while a drag-based tool is active
+  const controller = useMemo(() => {
+    if (drawMode === 'none') return true;
+    if (drawMode === 'polygon') return { doubleClickZoom: false };
+    return { dragPan: false, doubleClickZoom: false };
+  }, [drawMode]);
+
+  const basemapLayer = useMemo(() => createBasemapLayer(showBasemap), [showBasemap]);
+
+  // Missing values, and metrics the loaded columns do not have, come through as NaN
+  const getHexagonColor = useCallback((value: number) => {
     let normalizedValue;
     
-    if (selectedMetric === 'AGS_Percentage') {
-      normalizedValue = value / 100;
-      return interpolateColor(normalizedValue, PERCENTAGE_COLOR_SCALE);
+    if (selectedMetric === 'user_only') {
+      return value ? USER_ONLY_COLOR : NOT_USER_ONLY_COLOR;
+    } else if (selectedMetric === 'ratio') {
+      // No BGS boreholes means the uploaded set is infinitely denser
+      const log2Ratio = Number.isNaN(value) ? MAX_LOG2_RATIO : Math.log2(Math.max(value, 2 ** -MAX_LOG2_RATIO));
+      normalizedValue = 0.5 + Math.max(-MAX_LOG2_RATIO, Math.min(MAX_LOG2_RATIO, log2Ratio)) / (2 * MAX_LOG2_RATIO);
+      return interpolateColor(normalizedValue, metricColorScale);
+    } else if (selectedMetric === 'difference') {
+      normalizedValue = 0.5 + Math.sign(value) * Math.log(Math.abs(value) + 1) / (2 * Math.log(maxCount + 1));
+      return interpolateColor(normalizedValue, metricColorScale);
     } else {
-      normalizedValue = Math.log(value + 1) / Math.log(maxCount + 1);
-      return interpolateColor(normalizedValue, COUNT_COLOR_SCALE);
+      if (Number.isNaN(value) || !classification) return NO_VALUE_COLOR;
+      normalizedValue = normalizeValue(value, classification);
+      return interpolateColor(normalizedValue, metricColorScale);
     }
-  }, [maxCount, selectedMetric]);
+  }, [maxCount, selectedMetric, classification, metricColorScale]);
 
-  const hexagonLayer = useMemo(() => new GeoJsonLayer({
-    id: 'hexagons',
-    data: hexData || { type: 'FeatureCollection', features: [] },
-    filled: true,
-    getFillColor: getHexagonColor,
+  // The layer reads each cell by row from the columns rather than from an object per cell. Only a new
+  // set of columns replaces the data, so restyling keeps the hexagon geometry.
+  const layerRows = useMemo(() => ({ length: layerData ? layerData.hex.length : 0 }), [layerData]);
+
+  const hexagonLayer = useMemo(() => {
+    const colorValues = layerData?.metrics[selectedMetric];
+    const heightValues = layerData?.metrics[heightMetric];
+    return new H3HexagonLayer({
+      id: 'hexagons',
+      data: layerRows,
+      getHexagon: (_, { index }) => layerData.hex[index],
+      extruded: is3D,
+      filled: true,
+      getFillColor: (_, { index }) => getHexagonColor(colorValues ? colorValues[index] : NaN),
+      getElevation: (_, { index }) => (heightValues ? getHexagonElevation(heightValues[index]) : 0),
+      stroked: true,
+      getLineColor: [0, 0, 0, 80],
+      lineWidthMinPixels: 1,
+      pickable: true,
+      visible: showHexagons && !showPoints,
+      autoHighlight: true,
+      onHover: (info: any) => {
+        setHoverInfo(info.picked && layerData ? {
+          object: getHexRow(layerData, info.index),
+          x: info.x,
+          y: info.y
+        } : null);
+      },
+      transitions: {
+        getFillColor: 300,
+        getElevation: 300
+      },
+      updateTriggers: {
+        getFillColor: [maxCount, selectedMetric, classification, metricColorScale, getHexagonColor],
+        getElevation: [heightMetric, getHexagonElevation]
+      }
+    });
+  }, [layerData, layerRows, getHexagonColor, getHexagonElevation, is3D, maxCount, showHexagons, showPoints, selectedMetric, heightMetric]);
+
+  const filteredBoreholePoints = useMemo(() => {
+    if (!isFiltered(activeFilters)) return boreholePoints;
+    return boreholePoints.filter(point => matchesFilters(point.length, point.year, point.hasAGS, activeFilters));
+  }, [boreholePoints, activeFilters]);
+
+  const boreholePointLayers = useMemo(() => [new ScatterplotLayer<BoreholePointRecord>({
+    id: 'borehole-points',
+    data: filteredBoreholePoints,
+    getPosition: point => [point.longitude, point.latitude],
+    getRadius: 6,
+    radiusUnits: 'meters',
+    radiusMinPixels: 3,
+    radiusMaxPixels: 8,
+    getFillColor: point => point.hasAGS ? [215, 48, 39, 220] : [65, 182, 196, 220],
     stroked: true,
-    getLineColor: [0, 0, 0, 80],
+    getLineColor: [255, 255, 255, 255],
     lineWidthMinPixels: 1,
     pickable: true,
-    visible: showHexagons,
+    visible: showHexagons && showPoints,
     autoHighlight: true,
     onHover: (info: any) => {
       setHoverInfo(info.object ? {
@@ -571,14 +1442,194 @@ export default function MapComponent({
         x: info.x,
         y: info.y
       } : null);
-    },
-    transitions: {
-      getFillColor: 300
-    },
-    updateTriggers: {
-      getFillColor: [maxCount, selectedMetric, getHexagonColor]
     }
-  }), [hexData, getHexagonColor, maxCount, showHexagons, selectedMetric]);
+  }), new ScatterplotLayer<BoreholePointRecord>({
+    id: 'selected-borehole',
+    data: selectedBorehole ? [selectedBorehole] : [],
+    getPosition: point => [point.longitude, point.latitude],
+    getRadius: 12,
+    radiusUnits: 'pixels',
+    filled: false,
+    stroked: true,
+    getLineColor: [33, 33, 33, 255],
+    lineWidthMinPixels: 2
+  })], [filteredBoreholePoints, selectedBorehole, showHexagons, showPoints]);
+
+  const userHexagonLayer = useMemo(() => {
+    if (!userHexData) return null;
+
+    const userMaxCount = userHexData.reduce((max, cell) => Math.max(max, cell.count), 0);
+
+    return new H3HexagonLayer<HexagonData>({
+      id: 'user-hexagons',
+      data: userHexData,
+      getHexagon: cell => cell.hexId,
+      extruded: false,
+      filled: true,
+      getFillColor: cell => interpolateColor(Math.log(cell.count + 1) / Math.log(userMaxCount + 1), USER_COLOR_SCALE),
+      stroked: true,
+      getLineColor: [84, 39, 143, 255],
+      lineWidthMinPixels: 2,
+      pickable: true,
+      visible: showUserHexagons,
+      autoHighlight: true,
+      onHover: (info: any) => {
+        setHoverInfo(info.object ? {
+          object: info.object,
+          x: info.x,
+          y: info.y
+        } : null);
+      }
+    });
+  }, [userHexData, showUserHexagons]);
+
+  const agsLocationLayers = useMemo(() => {
+    if (!uploadedAgs) return [];
+
+    return [
+      new ScatterplotLayer<AgsLocation>({
+        id: 'ags-locations',
+        data: uploadedAgs.locations,
+        getPosition: location => [location.longitude, location.latitude],
+        getRadius: 4,
+        radiusUnits: 'pixels',
+        getFillColor: [230, 85, 13, 230],
+        stroked: true,
+        getLineColor: [255, 255, 255, 255],
+        lineWidthMinPixels: 1,
+        pickable: true,
+        visible: showAgsLocations,
+        autoHighlight: true,
+        onHover: (info: any) => {
+          setHoverInfo(info.object ? {
+            object: info.object,
+            x: info.x,
+            y: info.y
+          } : null);
+        }
+      }),
+      new TextLayer<AgsLocation>({
+        id: 'ags-location-labels',
+        data: uploadedAgs.locations,
+        getPosition: location => [location.longitude, location.latitude],
+        getText: location => location.LOCA_ID,
+        getSize: 11,
+        getColor: [60, 60, 60, 255],
+        getTextAnchor: 'start',
+        getAlignmentBaseline: 'center',
+        getPixelOffset: [7, 0],
+        outlineWidth: 2,
+        outlineColor: [255, 255, 255, 255],
+        fontSettings: { sdf: true },
+        visible: showAgsLocations
+      })
+    ];
+  }, [uploadedAgs, showAgsLocations]);
+
+  const drawnShapeLayers = useMemo(() => {
+    const shapeLayers: Layer[] = [];
+
+    if (drawnShapes.features.length > 0) {
+      shapeLayers.push(new GeoJsonLayer({
+        id: 'drawn-shapes',
+        data: drawnShapes,
+        filled: true,
+        getFillColor: [255, 140, 0, 60],
+        stroked: true,
+        getLineColor: (_: any, { index }: { index: number }) =>
+          index === selectedShapeIndex ? [215, 25, 28, 255] : [255, 140, 0, 220],
+        lineWidthMinPixels: 2,
+        pickable: true,
+        visible: showDrawnShapes,
+        onHover: (info: any) => {
+          if (info.object && drawMode === 'none') {
+            setHoverInfo({
+              object: info.object,
+              x: info.x,
+              y: info.y
+            });
+          }
+        },
+        updateTriggers: {
+          getLineColor: [selectedShapeIndex]
+        }
+      }));
+    }
+
+    const selectedShape = selectedShapeIndex !== null ? drawnShapes.features[selectedShapeIndex] : null;
+    if (drawMode === 'edit' && selectedShape && selectedShape.properties.shape !== 'circle') {
+      shapeLayers.push(new ScatterplotLayer<Position>({
+        id: 'drawn-vertices',
+        data: selectedShape.geometry.coordinates[0].slice(0, -1),
+        getPosition: position => position as [number, number],
+        getRadius: 6,
+        radiusUnits: 'pixels',
+        getFillColor: [255, 255, 255, 255],
+        stroked: true,
+        getLineColor: [215, 25, 28, 255],
+        lineWidthMinPixels: 2,
+        pickable: true
+      }));
+    }
+
+    const draftFeatures: any[] = [];
+    if (draftRing && draftRing.length > 1) {
+      draftFeatures.push({ type: 'Feature', geometry: { type: 'Polygon', coordinates: [closeRing(draftRing)] }, properties: {} });
+    }
+    if (draftVertices.length > 0) {
+      draftFeatures.push({
+        type: 'Feature',
+        geometry: { type: 'LineString', coordinates: draftCursor ? [...draftVertices, draftCursor] : draftVertices },
+        properties: {}
+      });
+      draftVertices.forEach(vertex => {
+        draftFeatures.push({ type: 'Feature', geometry: { type: 'Point', coordinates: vertex }, properties: {} });
+      });
+    }
+    if (draftFeatures.length > 0) {
+      shapeLayers.push(new GeoJsonLayer({
+        id: 'drawing-draft',
+        data: { type: 'FeatureCollection', features: draftFeatures },
+        filled: true,
+        getFillColor: [255, 140, 0, 40],
+        stroked: true,
+        getLineColor: [255, 140, 0, 255],
+        lineWidthMinPixels: 2,
+        pointType: 'circle',
+        getPointRadius: 4,
+        pointRadiusUnits: 'pixels'
+      }));
+    }
+
+    return shapeLayers;
+  }, [drawnShapes, selectedShapeIndex, showDrawnShapes, drawMode, draftRing, draftVertices, draftCursor]);
+
+  // The corridor is drawn as a path whose width is the full buffer, with rounded caps and joins to match the analysis
+  const corridorLayers = useMemo(() => {
+    if (!corridor) return [];
+
+    return [
+      new PathLayer<CorridorSelection>({
+        id: 'corridor-buffer',
+        data: [corridor],
+        getPath: c => c.line.coordinates as [number, number][],
+        getWidth: c => c.bufferMeters * 2,
+        widthUnits: 'meters',
+        widthMinPixels: 4,
+        capRounded: true,
+        jointRounded: true,
+        getColor: [215, 25, 28, 70]
+      }),
+      new PathLayer<CorridorSelection>({
+        id: 'corridor-centreline',
+        data: [corridor],
+        getPath: c => c.line.coordinates as [number, number][],
+        getWidth: 2,
+        widthUnits: 'pixels',
+        getColor: [215, 25, 28, 255]
+      })
+    ];
+  }, [corridor]);
 
   const uploadedGeoJSONLayer = useMemo(() => {
     if (!uploadedGeoJSON) return null;
@@ -608,12 +1659,67 @@ export default function MapComponent({
   }, [uploadedGeoJSON, showUploadedGeoJSON]);
 
   const layers = useMemo(() => {
-    const allLayers = [basemapLayer, hexagonLayer];
+    const allLayers: Layer[] = [basemapLayer, hexagonLayer, ...boreholePointLayers];
+    if (userHexagonLayer) {
+      allLayers.push(userHexagonLayer);
+    }
     if (uploadedGeoJSONLayer) {
       allLayers.push(uploadedGeoJSONLayer);
     }
+    allLayers.push(...corridorLayers, ...agsLocationLayers, ...drawnShapeLayers);
     return allLayers;
-  }, [basemapLayer, hexagonLayer, uploadedGeoJSONLayer]);
+  }, [basemapLayer, hexagonLayer, boreholePointLayers, userHexagonLayer, uploadedGeoJSONLayer, corridorLayers, agsLocationLayers, drawnShapeLayers]);
+
+  const exportCurrentMap = useCallback(async (options: MapExportOptions) => {
+    const legendStyle = LEGEND_STYLES[selectedMetric];
+    const legend: MapExportLegend | null = classification || legendStyle ? {
+      title: getLegendTitle(selectedMetric, deeperThan),
+      colorScale: metricColorScale,
+      classification,
+      unit: METRIC_UNITS[selectedMetric] || '',
+      labels: legendStyle?.labels
+    } : null;
+
+    // Export what the user can see, which on desktop is the map to the right of the sidebar
+    const width = window.innerWidth;
+    const height = window.innerHeight;
+    const hiddenWidth = isMobile ? 0 : sidebarWidth;
+    const [longitude, latitude] = new WebMercatorViewport({ ...viewState, width, height })
+      .unproject([hiddenWidth + (width - hiddenWidth) / 2, height / 2]);
+
+    const blob = await exportMap({
+      layers,
+      viewState: { ...viewState, longitude, latitude },
+      visibleWidth: width - hiddenWidth,
+      visibleHeight: height,
+      legend,
+      options
+    });
+    downloadBlob(blob, `borehole-map.${options.format}`);
+  }, [selectedMetric, classification, deeperThan, metricColorScale, isMobile, sidebarWidth, viewState, layers]);
+
+  // Drawn areas come before uploaded polygons, so a selected drawn area's index carries over
+  const sitePolygons = useMemo(() => {
+    const sites: { name: string; geometry: Polygon | MultiPolygon }[] = drawnShapes.features.map(feature => ({
+      name: feature.properties.name,
+      geometry: feature.geometry
+    }));
+    getPolygonFeatures(uploadedGeoJSON).forEach((feature, i) => {
+      sites.push({ name: feature.properties?.name || `Uploaded polygon ${i + 1}`, geometry: feature.geometry });
+    });
+    return sites;
+  }, [drawnShapes, uploadedGeoJSON]);
+
+  const hexExportAreas = useMemo(() => {
+    if (!hexExportOpen) return [];
+    const areas: { label: string; area: HexExportArea }[] = [
+      { label: 'Current view', area: { type: 'view', bounds: getViewBounds(viewState) } }
+    ];
+    sitePolygons.forEach(({ name, geometry }) => {
+      areas.push({ label: name, area: { type: 'polygon', name, geometry } });
+    });
+    return areas;
+  }, [hexExportOpen, viewState, sitePolygons]);
 
   const renderTooltip = () => {
     if (!hoverInfo) return null;
@@ -621,14 +1727,64 @@ export default function MapComponent({
     const { object, x, y } = hoverInfo;
     
     let tooltipContent;
-    if (object.properties?.count !== undefined) {
+    if (object.user_count !== undefined) {
+      const cell = object as ComparisonCell;
+      tooltipContent = (
+        <>
+          <div>BGS Boreholes: {cell.count}</div>
+          <div>Our Boreholes: {cell.user_count}</div>
+          <div>Difference: {cell.difference > 0 ? '+' : ''}{cell.difference}</div>
+          <div>Ratio: {cell.ratio === null ? 'no BGS boreholes' : `${cell.ratio.toFixed(2)} : 1`}</div>
+        </>
+      );
+    } else if (object.depth_count !== undefined) {
+      const cell = object as DepthCell;
+      const formatDepth = (depth: number | null) => depth === null ? 'n/a' : `${depth.toFixed(1)} m`;
+      tooltipContent = (
+        <>
+          <div>Total Boreholes: {cell.count}</div>
+          <div>With Recorded Depth: {cell.depth_count}</div>
+          <div>Mean Depth: {formatDepth(cell.mean_depth)}</div>
+          <div>Median Depth: {formatDepth(cell.median_depth)}</div>
+          <div>Maximum Depth: {formatDepth(cell.max_depth)}</div>
+          <div>Deeper Than {deeperThan} m: {cell.deeper_count}</div>
+          <div>Cell Area: {cell.area_km2.toFixed(2)} km²</div>
+        </>
+      );
+    } else if (object.hex !== undefined) {
+      tooltipContent = (
+        <>
+          <div>Total Boreholes: {object.count}</div>
+          <div>AGS Boreholes: {object.AGS_count}</div>
+          <div>AGS Percentage: {object.AGS_Percentage.toFixed(1)}%</div>
+          <div>Density: {object.density.toFixed(1)} / km²</div>
+          <div>Cell Area: {object.area_km2.toFixed(2)} km²</div>
+        </>
+      );
+    } else if (object.hasAGS !== undefined) {
       tooltipContent = (
         <>
-          <div>Total Boreholes: {object.properties.count}</div>
-          <div>AGS Boreholes: {object.properties.AGS_count}</div>
-          <div>AGS Percentage: {object.properties.AGS_Percentage.toFixed(1)}%</div>
+          <div className="font-semibold">{object.reference ?? 'BGS Borehole'}</div>
+          {object.name && <div>{object.name}</div>}
+          <div>{object.hasAGS ? 'AGS data available' : 'No AGS data'}</div>
+          <div className="text-gray-500">Click for details</div>
         </>
       );
+    } else if (object.LOCA_ID !== undefined) {
+      tooltipContent = (
+        <>
+          <div className="font-semibold">{object.LOCA_ID}</div>
+          <div>Easting: {object.LOCA_NATE}</div>
+          <div>Northing: {object.LOCA_NATN}</div>
+          <div>Ground Level: {object.LOCA_GL !== null ? `${object.LOCA_GL} m OD` : 'n/a'}</div>
+          <div>Final Depth: {object.LOCA_FDEP !== null ? `${object.LOCA_FDEP} m` : 'n/a'}</div>
+          <div className="text-gray-500">{object.sourceFile}</div>
+        </>
+      );
+    } else if (object.hexId !== undefined) {
+      tooltipContent = (
+        <div>Uploaded Boreholes: {object.count}</div>
+      );
     } else if (object.properties) {
       tooltipContent = (
         <>
@@ -658,9 +1814,53 @@ export default function MapComponent({
         initialViewState={initialViewState}
         viewState={viewState}
         onViewStateChange={onViewStateChange}
-        controller
+        controller={controller}
         layers={layers}
+        onClick={handleMapClick}
+        onHover={handleMapHover}
+        onDragStart={handleDragStart}
+        onDrag={handleDrag}
+        onDragEnd={handleDragEnd}
+        getCursor={({ isDragging }) => drawMode === 'none' ? (isDragging ? 'grabbing' : 'grab') : 'crosshair'}
+      />
+
+      <DrawingToolbar
+        mode={drawMode}
+        onModeChange={changeDrawMode}
+        draftVertexCount={draftVertices.length}
+        draftRadius={draftRadius}
+        onFinishPolygon={finishPolygon}
+        selectedShape={selectedShapeIndex !== null ? drawnShapes.features[selectedShapeIndex] : null}
+        onDeleteSelected={() => {
+          onDrawnShapesChange({
+            ...drawnShapes,
+            features: drawnShapes.features.filter((_, i) => i !== selectedShapeIndex)
+          });
+          setSelectedShapeIndex(null);
+        }}
+        onRadiusChange={(radius) => replaceShape(selectedShapeIndex, resizeCircle(drawnShapes.features[selectedShapeIndex], radius))}
+        sidebarWidth={effectiveSidebarWidth}
+        isMobile={isMobile}
       />
+
+      {timelineYear !== null && (
+        <TimelinePanel
+          year={timelineYear}
+          onYearChange={setTimelineYear}
+          filters={filters}
+          sidebarWidth={effectiveSidebarWidth}
+          isMobile={isMobile}
+        />
+      )}
+
+      {selectedBorehole && (
+        <BoreholeCard
+          borehole={selectedBorehole}
+          onClose={() => setSelectedBorehole(null)}
+          sidebarWidth={effectiveSidebarWidth}
+          isMobile={isMobile}
+        />
+      )}
       
       {/* Standard desktop controls */}
       <LayerControl
@@ -668,14 +1868,45 @@ export default function MapComponent({
         showHexagons={showHexagons}
         showUploadedGeoJSON={showUploadedGeoJSON}
         selectedMetric={selectedMetric}
-        onMetricChange={setSelectedMetric}
+        onMetricChange={changeMetric}
+        deeperThan={deeperThan}
+        onDeeperThanChange={setDeeperThan}
+        classificationSettings={classificationSettings}
+        onClassificationSettingsChange={setClassificationSettings}
+        paletteSettings={paletteSettings}
+        onPaletteSettingsChange={onPaletteSettingsChange}
         onToggleBasemap={() => setShowBasemap(!showBasemap)}
         onToggleHexagons={() => setShowHexagons(!showHexagons)}
         onToggleUploadedGeoJSON={() => setShowUploadedGeoJSON(!showUploadedGeoJSON)}
         hasUploadedData={!!uploadedGeoJSON}
+        showUserHexagons={showUserHexagons}
+        onToggleUserHexagons={() => setShowUserHexagons(!showUserHexagons)}
+        hasUploadedPoints={!!uploadedPoints}
+        showAgsLocations={showAgsLocations}
+        onToggleAgsLocations={() => setShowAgsLocations(!showAgsLocations)}
+        hasUploadedAgs={!!uploadedAgs}
+        showDrawnShapes={showDrawnShapes}
+        onToggleDrawnShapes={() => setShowDrawnShapes(!showDrawnShapes)}
+        hasDrawnShapes={drawnShapes.features.length > 0}
+        filters={filters}
+        onFiltersChange={setFilters}
+        showTimeline={timelineYear !== null}
+        onToggleTimeline={toggleTimeline}
+        extrusion={extrusion}
+        getShareUrl={() => getShareUrl(sharedHash)}
+        onExportMap={() => setExportOpen(true)}
+        onExportHexes={() => setHexExportOpen(true)}
+        hasSites={sitePolygons.length > 0}
+        onSiteReport={() => setSiteReportOpen(true)}
+        isMobile={isMobile}
+      />
+      <Legend
         isMobile={isMobile}
+        selectedMetric={selectedMetric}
+        classification={classification}
+        colorScale={metricColorScale}
+        deeperThan={deeperThan}
       />
-      <Legend isMobile={isMobile} />
       <ScaleBar 
         latitude={viewState.latitude} 
         zoom={viewState.zoom} 
@@ -691,17 +1922,71 @@ export default function MapComponent({
           showHexagons={showHexagons}
           showUploadedGeoJSON={showUploadedGeoJSON}
           selectedMetric={selectedMetric}
-          onMetricChange={setSelectedMetric}
+          onMetricChange={changeMetric}
+          deeperThan={deeperThan}
+          onDeeperThanChange={setDeeperThan}
+          classificationSettings={classificationSettings}
+          onClassificationSettingsChange={setClassificationSettings}
+          paletteSettings={paletteSettings}
+          onPaletteSettingsChange={onPaletteSettingsChange}
+          classification={classification}
+          colorScale={metricColorScale}
           onToggleBasemap={() => setShowBasemap(!showBasemap)}
           onToggleHexagons={() => setShowHexagons(!showHexagons)}
           onToggleUploadedGeoJSON={() => setShowUploadedGeoJSON(!showUploadedGeoJSON)}
           hasUploadedData={!!uploadedGeoJSON}
+          showUserHexagons={showUserHexagons}
+          onToggleUserHexagons={() => setShowUserHexagons(!showUserHexagons)}
+          hasUploadedPoints={!!uploadedPoints}
+          showAgsLocations={showAgsLocations}
+          onToggleAgsLocations={() => setShowAgsLocations(!showAgsLocations)}
+          hasUploadedAgs={!!uploadedAgs}
+          showDrawnShapes={showDrawnShapes}
+          onToggleDrawnShapes={() => setShowDrawnShapes(!showDrawnShapes)}
+          hasDrawnShapes={drawnShapes.features.length > 0}
+          filters={filters}
+          onFiltersChange={setFilters}
+          showTimeline={timelineYear !== null}
+          onToggleTimeline={toggleTimeline}
+          extrusion={extrusion}
+          getShareUrl={() => getShareUrl(sharedHash)}
+          onExportMap={() => setExportOpen(true)}
+          onExportHexes={() => setHexExportOpen(true)}
+          hasSites={sitePolygons.length > 0}
+          onSiteReport={() => setSiteReportOpen(true)}
           latitude={viewState.latitude}
           zoom={viewState.zoom}
           resolution={currentResolution}
         />
       )}
       
+      {exportOpen && (
+        <ExportDialog
+          defaultTitle={getLegendTitle(selectedMetric, deeperThan) || 'Borehole density'}
+          onExport={exportCurrentMap}
+          onClose={() => setExportOpen(false)}
+        />
+      )}
+
+      {hexExportOpen && (
+        <HexExportDialog
+          data={layerData || createHexColumns([])}
+          resolution={currentResolution}
+          areas={hexExportAreas}
+          defaultAreaIndex={selectedShapeIndex !== null ? selectedShapeIndex + 1 : 0}
+          onClose={() => setHexExportOpen(false)}
+        />
+      )}
+
+      {siteReportOpen && sitePolygons.length > 0 && (
+        <SiteReportDialog
+          sites={sitePolygons}
+          defaultSiteIndex={selectedShapeIndex ?? 0}
+          colorScale={sequentialScale}
+          onClose={() => setSiteReportOpen(false)}
+        />
+      )}
+
       {renderTooltip()}
     </>
   );
@@ -0,0 +1,90 @@
+import React from 'react';
+import {
+  CVD_TYPES,
+  PALETTES,
+  PaletteSettings,
+  PaletteType,
+  buildColorScale,
+  getPalette,
+  gradientCss
+} from '../utils/palettes';
+
+interface PalettePickerProps {
+  settings: PaletteSettings;
+  onChange: (settings: PaletteSettings) => void;
+  type: PaletteType;
+  isMobile?: boolean;
+}
+
+const PalettePicker = ({ settings, onChange, type, isMobile }: PalettePickerProps) => {
+  const textSize = isMobile ? 'text-xs' : 'text-sm';
+  const smallText = isMobile ? 'text-[10px]' : 'text-xs';
+  const palette = getPalette(settings[type]);
+
+  return (
+    <div className="mt-2">
+      <label className={`${textSize} mb-1 block`}>Palette:</label>
+      <select
+        value={palette.id}
+        onChange={(e) => onChange({ ...settings, [type]: e.target.value })}
+        className={`w-full p-1 ${textSize} rounded border`}
+      >
+        {PALETTES.filter(p => p.type === type).map(p => (
+          <option key={p.id} value={p.id}>{p.label}</option>
+        ))}
+      </select>
+
+      <div className={`flex items-center justify-between gap-2 mt-1 ${smallText}`}>
+        <label className="flex items-center gap-1 cursor-pointer">
+          <input
+            type="checkbox"
+            className={isMobile ? 'h-3 w-3' : undefined}
+            checked={settings.reversed}
+            onChange={() => onChange({ ...settings, reversed: !settings.reversed })}
+          />
+          Reverse
+        </label>
+        <label className="flex items-center gap-1 flex-1">
+          Opacity
+          <input
+            type="range"
+            min={0.2}
+            max={1}
+            step={0.05}
+            value={settings.opacity}
+            onChange={(e) => onChange({ ...settings, opacity: Number(e.target.value) })}
+            className="flex-1 h-1"
+          />
+        </label>
+      </div>
+
+      <label className={`${smallText} mt-1 block`}>
+        Simulate
+        <select
+          value={settings.cvd}
+          onChange={(e) => onChange({ ...settings, cvd: e.target.value as PaletteSettings['cvd'] })}
+          className={`ml-1 p-0.5 ${smallText} rounded border`}
+        >
+          {CVD_TYPES.map(cvd => (
+            <option key={cvd.value} value={cvd.value}>{cvd.label}</option>
+          ))}
+        </select>
+      </label>
+
+      {/* How the ramp reads under each type of colour vision deficiency */}
+      <div className="grid grid-cols-2 gap-x-2 gap-y-0.5 mt-1">
+        {CVD_TYPES.map(cvd => (
+          <div key={cvd.value} className={`${smallText} text-gray-600`}>
+            <div
+              className="h-2 w-full rounded-sm"
+              style={{ background: gradientCss(buildColorScale(palette, { ...settings, opacity: 1, cvd: cvd.value })) }}
+            />
+            {cvd.label}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default PalettePicker;
@@ -1,8 +1,23 @@
 import React, { useState } from 'react';
 import FileUpload from './FileUpload';
+import SiteSummaryPanel from './SiteSummaryPanel';
+import CorridorPanel from './CorridorPanel';
+import { PointDataset, AgsDataset } from '../utils/fileParsers';
+import { downloadGeoJSON } from '../utils/drawing';
+import { CorridorSelection } from '../utils/corridor';
+import { PaletteSettings, buildColorScale, getPalette, gradientCss } from '../utils/palettes';
+import { BGS_ATTRIBUTION, OSM_ATTRIBUTION } from '../utils/attribution';
+import { FeatureCollection } from 'geojson';
 
 interface SidebarProps {
   onGeoJSONUploaded: (data: any) => void;
+  onPointsUploaded: (dataset: PointDataset) => void;
+  onAgsUploaded: (dataset: AgsDataset) => void;
+  uploadedGeoJSON?: any;
+  drawnShapes?: FeatureCollection;
+  onClearDrawnShapes?: () => void;
+  onCorridorChange?: (corridor: CorridorSelection | null) => void;
+  paletteSettings: PaletteSettings;
   isCollapsed?: boolean;
   onToggleCollapse?: () => void;
   isMobile?: boolean;
@@ -10,6 +25,13 @@ interface SidebarProps {
 
 export default function Sidebar({ 
   onGeoJSONUploaded, 
+  onPointsUploaded,
+  onAgsUploaded,
+  uploadedGeoJSON,
+  drawnShapes,
+  onClearDrawnShapes,
+  onCorridorChange,
+  paletteSettings,
   isCollapsed = false, 
   onToggleCollapse,
   isMobile = false
@@ -25,6 +47,38 @@ export default function Sidebar({
     setUploadedFileName(name);
   };
 
+  const handlePointsUploaded = (dataset: PointDataset) => {
+    onPointsUploaded(dataset);
+    setUploadedFileName(`${dataset.name} (${dataset.points.length} points)`);
+  };
+
+  const handleAgsUploaded = (dataset: AgsDataset) => {
+    onAgsUploaded(dataset);
+    setUploadedFileName(`${dataset.name} (${dataset.locations.length} locations)`);
+  };
+
+  const hasDrawnShapes = !!drawnShapes && drawnShapes.features.length > 0;
+
+  // Same ramp as the hex layer, so the explanation matches what is on the map
+  const densityGradient = gradientCss(buildColorScale(getPalette(paletteSettings.sequential), paletteSettings));
+
+  const renderDrawnShapesActions = (buttonSize: string) => (
+    <div className="flex gap-2 mt-1">
+      <button
+        onClick={() => downloadGeoJSON(drawnShapes, 'drawn-areas.geojson')}
+        className={`px-2 py-1 ${buttonSize} rounded border border-blue-300 text-blue-700 hover:bg-blue-50 transition-colors`}
+      >
+        Export GeoJSON
+      </button>
+      <button
+        onClick={onClearDrawnShapes}
+        className={`px-2 py-1 ${buttonSize} rounded border border-gray-300 text-gray-700 hover:bg-gray-100 transition-colors`}
+      >
+        Clear all
+      </button>
+    </div>
+  );
+
   // If sidebar is collapsed, show a minimal version with a more mobile-friendly UI
   if (isCollapsed) {
     return (
@@ -74,7 +128,7 @@ export default function Sidebar({
           
           {/* Rest of the sidebar content - more condensed for mobile */}
           <section className="mb-4">
-            <FileUpload onFileUploaded={handleFileUploaded} />
+            <FileUpload onFileUploaded={handleFileUploaded} onPointsUploaded={handlePointsUploaded} onAgsUploaded={handleAgsUploaded} />
             {uploadedFileName && (
               <div className="mt-2 p-2 bg-blue-50 border border-blue-200 rounded-md">
                 <p className="text-xs text-blue-700 font-medium">
@@ -82,7 +136,18 @@ export default function Sidebar({
                 </p>
               </div>
             )}
+            {uploadedGeoJSON && <SiteSummaryPanel geojson={uploadedGeoJSON} isMobile />}
+            {uploadedGeoJSON && onCorridorChange && (
+              <CorridorPanel geojson={uploadedGeoJSON} onCorridorChange={onCorridorChange} isMobile />
+            )}
           </section>
+
+          {hasDrawnShapes && (
+            <section className="mb-4">
+              <SiteSummaryPanel geojson={drawnShapes} title="Drawn Areas" isMobile />
+              {renderDrawnShapesActions('text-[10px]')}
+            </section>
+          )}
           
           <section className="mb-4">
             <h2 className="text-base font-semibold mb-1 text-gray-800">About</h2>
@@ -97,7 +162,7 @@ export default function Sidebar({
               The map uses hierarchical hexagonal binning (H3) to aggregate borehole locations.
             </p>
             <div className="bg-gray-50 p-2 rounded-md border border-gray-200">
-              <div className="h-3 w-full mb-1 rounded-sm bg-gradient-to-r from-[#41B6C4] via-[#C7E9B4] to-[#D7191C]"></div>
+              <div className="h-3 w-full mb-1 rounded-sm" style={{ background: densityGradient }}></div>
               <div className="flex justify-between text-[10px] text-gray-600">
                 <span>Low</span>
                 <span>Medium</span>
@@ -114,8 +179,8 @@ export default function Sidebar({
           </section>
           
           <footer className="text-[10px] border-t pt-3 border-gray-200 text-gray-500">
-            <p className="mb-1">Contains BGS materials © UKRI [2025]</p>
-            <p>Basemap © OpenStreetMap contributors</p>
+            <p className="mb-1">{BGS_ATTRIBUTION}</p>
+            <p>{OSM_ATTRIBUTION}</p>
           </footer>
         </div>
       </>
@@ -139,7 +204,7 @@ export default function Sidebar({
       </div>
       
       <section className="mb-6">
-        <FileUpload onFileUploaded={handleFileUploaded} />
+        <FileUpload onFileUploaded={handleFileUploaded} onPointsUploaded={handlePointsUploaded} onAgsUploaded={handleAgsUploaded} />
         {uploadedFileName && (
           <div className="mt-2 p-2 bg-blue-50 border border-blue-200 rounded-md">
             <p className="text-xs text-blue-700 font-medium">
@@ -147,7 +212,18 @@ export default function Sidebar({
             </p>
           </div>
         )}
+        {uploadedGeoJSON && <SiteSummaryPanel geojson={uploadedGeoJSON} />}
+        {uploadedGeoJSON && onCorridorChange && (
+          <CorridorPanel geojson={uploadedGeoJSON} onCorridorChange={onCorridorChange} />
+        )}
       </section>
+
+      {hasDrawnShapes && (
+        <section className="mb-6">
+          <SiteSummaryPanel geojson={drawnShapes} title="Drawn Areas" />
+          {renderDrawnShapesActions('text-xs')}
+        </section>
+      )}
       
       <section className="mb-6">
         <h2 className="text-lg font-semibold mb-2 text-gray-800">About</h2>
@@ -173,7 +249,7 @@ export default function Sidebar({
           Colors indicate the density of boreholes in each area:
         </p>
         <div className="bg-gray-50 p-3 rounded-md border border-gray-200">
-          <div className="h-4 w-full mb-2 rounded-sm bg-gradient-to-r from-[#41B6C4] via-[#C7E9B4] to-[#D7191C]"></div>
+          <div className="h-4 w-full mb-2 rounded-sm" style={{ background: densityGradient }}></div>
           <div className="flex justify-between text-xs text-gray-600">
             <span>Low Density</span>
             <span>Medium</span>
@@ -208,10 +284,10 @@ export default function Sidebar({
       <footer className="text-xs border-t pt-4 border-gray-200 text-gray-500">
         <h2 className="font-semibold mb-1">Attributions</h2>
         <p className="mb-2">
-          Contains British Geological Survey materials © UKRI [2025]
+          {BGS_ATTRIBUTION}
         </p>
         <p className="mb-2">
-          Basemap © OpenStreetMap contributors
+          {OSM_ATTRIBUTION}
         </p>
         <p>
           Powered by DeckGL and H3 hexagonal binning
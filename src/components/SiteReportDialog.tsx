@@ -0,0 +1,92 @@
+import React, { useState } from 'react';
+import { MultiPolygon, Polygon } from 'geojson';
+import { ColorScale } from '../utils/palettes';
+import { REPORT_BUFFERS, createSiteReport, formatDistance } from '../utils/siteReport';
+import { downloadBlob } from '../utils/download';
+
+interface SiteReportDialogProps {
+  sites: { name: string; geometry: Polygon | MultiPolygon }[];
+  defaultSiteIndex?: number;
+  colorScale: ColorScale;
+  onClose: () => void;
+}
+
+const SiteReportDialog = ({ sites, defaultSiteIndex = 0, colorScale, onClose }: SiteReportDialogProps) => {
+  const [siteIndex, setSiteIndex] = useState(Math.min(defaultSiteIndex, sites.length - 1));
+  const [creating, setCreating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const createReport = async () => {
+    const site = sites[siteIndex];
+    // Open the tab straight from the click, before any awaits, so popup blockers allow it
+    const reportWindow = window.open('', '_blank');
+    reportWindow?.document.write('<p style="font-family: sans-serif">Preparing report…</p>');
+    setCreating(true);
+    setError(null);
+
+    try {
+      const html = await createSiteReport({ name: site.name, geometry: site.geometry, colorScale });
+      if (reportWindow && !reportWindow.closed) {
+        reportWindow.document.open();
+        reportWindow.document.write(html);
+        reportWindow.document.close();
+      } else {
+        downloadBlob(new Blob([html], { type: 'text/html' }), `site-report-${site.name.toLowerCase().replace(/[^a-z0-9]+/g, '-')}.html`);
+      }
+      onClose();
+    } catch (e) {
+      console.error('Error creating site report:', e);
+      reportWindow?.close();
+      setError(e instanceof Error ? e.message : 'The report could not be created');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-30 flex items-center justify-center bg-black/30" onClick={creating ? undefined : onClose}>
+      <div className="bg-white rounded-md shadow-lg p-4 w-80 max-w-[90vw] text-sm" onClick={e => e.stopPropagation()}>
+        <h2 className="font-semibold mb-3">Site report</h2>
+
+        <label className="block mb-2">
+          Site
+          <select
+            value={siteIndex}
+            onChange={e => setSiteIndex(Number(e.target.value))}
+            className="w-full p-1 mt-1 rounded border"
+          >
+            {sites.map((site, i) => (
+              <option key={`${site.name}-${i}`} value={i}>{site.name}</option>
+            ))}
+          </select>
+        </label>
+
+        <p className="text-xs text-gray-500 mb-3">
+          A printable desk-study page with location and site maps, and BGS borehole and AGS counts inside the site and
+          within {REPORT_BUFFERS.map(formatDistance).join(', ')} of it.
+          It opens in a new tab, ready to print or save as PDF.
+        </p>
+        {error && <p className="text-xs text-red-600 mb-2">{error}</p>}
+
+        <div className="flex justify-end gap-2">
+          <button
+            onClick={onClose}
+            disabled={creating}
+            className="px-3 py-1 rounded border border-gray-300 text-gray-700 hover:bg-gray-100 disabled:opacity-50"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={createReport}
+            disabled={creating}
+            className="px-3 py-1 rounded bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+          >
+            {creating ? 'Preparing…' : 'Create report'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SiteReportDialog;
@@ -0,0 +1,69 @@
+import React, { useEffect, useState } from 'react';
+import { FINEST_RESOLUTION } from '../utils/hexData';
+import { SiteSummary, summariseSites } from '../utils/siteSummary';
+
+interface SiteSummaryPanelProps {
+  geojson: any;
+  title?: string;
+  isMobile?: boolean;
+}
+
+const SiteSummaryPanel: React.FC<SiteSummaryPanelProps> = ({ geojson, title = 'Site Summary', isMobile = false }) => {
+  const [summaries, setSummaries] = useState<SiteSummary[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    summariseSites(geojson)
+      .then(result => {
+        if (!cancelled) {
+          setSummaries(result);
+          setError(null);
+        }
+      })
+      .catch(err => {
+        console.error('Error summarising sites:', err);
+        if (!cancelled) setError('Could not calculate site statistics');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [geojson]);
+
+  if (error) {
+    return <p className="mt-2 text-xs text-red-500">{error}</p>;
+  }
+
+  if (summaries.length === 0) return null;
+
+  const textSize = isMobile ? 'text-[10px]' : 'text-xs';
+
+  return (
+    <div className="mt-3">
+      <h3 className={`${isMobile ? 'text-sm' : 'text-base'} font-semibold mb-1 text-gray-800`}>{title}</h3>
+      {summaries.map((summary, i) => (
+        <div key={`${summary.name}-${i}`} className="mb-2 p-2 bg-gray-50 border border-gray-200 rounded-md">
+          <p className={`${textSize} font-medium text-gray-800 mb-1`}>{summary.name}</p>
+          <dl className={`grid grid-cols-2 gap-x-2 ${textSize} text-gray-700`}>
+            <dt>Total boreholes</dt>
+            <dd className="text-right">{summary.count.toLocaleString()}</dd>
+            <dt>AGS boreholes</dt>
+            <dd className="text-right">{summary.AGS_count.toLocaleString()}</dd>
+            <dt>AGS percentage</dt>
+            <dd className="text-right">{summary.AGS_Percentage.toFixed(1)}%</dd>
+            <dt>Density</dt>
+            <dd className="text-right">{summary.density.toFixed(1)} / km²</dd>
+          </dl>
+        </div>
+      ))}
+      <p className={`${isMobile ? 'text-[10px]' : 'text-xs'} text-gray-500`}>
+        Counted from H3 resolution {FINEST_RESOLUTION} cells whose centres fall inside each polygon
+        ({summaries.reduce((total, s) => total + s.cellCount, 0)} cells).
+      </p>
+    </div>
+  );
+};
+
+export default SiteSummaryPanel;
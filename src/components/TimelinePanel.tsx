@@ -0,0 +1,122 @@
+import React, { useEffect, useState } from 'react';
+import { BoreholeFilters, YEAR_RANGE, YearCount } from '../utils/boreholeAttributes';
+import { getCumulativeCounts } from '../utils/hexWorkerClient';
+
+interface TimelinePanelProps {
+  year: number;
+  onYearChange: (year: number) => void;
+  filters: BoreholeFilters;
+  sidebarWidth: number;
+  isMobile?: boolean;
+}
+
+const CHART_WIDTH = 300;
+const CHART_HEIGHT = 60;
+const PLAY_INTERVAL_MS = 250;
+
+const xForYear = (year: number) =>
+  ((year - YEAR_RANGE[0]) / (YEAR_RANGE[1] - YEAR_RANGE[0])) * CHART_WIDTH;
+
+const TimelinePanel = ({ year, onYearChange, filters, sidebarWidth, isMobile }: TimelinePanelProps) => {
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [counts, setCounts] = useState<YearCount[]>([]);
+  const [undated, setUndated] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    getCumulativeCounts(filters)
+      .then(result => {
+        if (!cancelled) {
+          setCounts(result.counts);
+          setUndated(result.undated);
+        }
+      })
+      .catch(err => console.error('Error counting boreholes by year:', err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [filters]);
+
+  // Step one year at a time and stop at the present day
+  useEffect(() => {
+    if (!isPlaying) return;
+    if (year >= YEAR_RANGE[1]) {
+      setIsPlaying(false);
+      return;
+    }
+    const timeout = setTimeout(() => onYearChange(year + 1), PLAY_INTERVAL_MS);
+    return () => clearTimeout(timeout);
+  }, [isPlaying, year, onYearChange]);
+
+  const togglePlaying = () => {
+    if (!isPlaying && year >= YEAR_RANGE[1]) {
+      onYearChange(YEAR_RANGE[0]);
+    }
+    setIsPlaying(!isPlaying);
+  };
+
+  // The map holds at the year filter's upper limit, so the totals and chart do too
+  const capYear = Math.min(filters.maxYear, YEAR_RANGE[1]);
+  const capCount = counts.find(c => c.year === capYear)?.count ?? 0;
+  const shownCounts = counts.map(c => (c.year > capYear ? { year: c.year, count: capCount } : c));
+
+  const total = shownCounts.length > 0 ? shownCounts[shownCounts.length - 1].count : 0;
+  const current = shownCounts.find(c => c.year === year)?.count ?? 0;
+  const yFor = (count: number) => CHART_HEIGHT - (total > 0 ? (count / total) * CHART_HEIGHT : 0);
+  const area = shownCounts.length > 0
+    ? `M0,${CHART_HEIGHT} ${shownCounts.map(c => `L${xForYear(c.year)},${yFor(c.count)}`).join(' ')} L${CHART_WIDTH},${CHART_HEIGHT} Z`
+    : '';
+  const textSize = isMobile ? 'text-[10px]' : 'text-xs';
+
+  return (
+    <div
+      className={`fixed ${isMobile ? 'bottom-16 w-[90vw]' : 'bottom-8 w-80'} bg-white p-3 rounded-md shadow-md z-10 -translate-x-1/2 transition-all duration-300 ease-in-out`}
+      style={{ left: `calc(50% + ${sidebarWidth / 2}px)` }}
+    >
+      <div className="flex items-center justify-between mb-1">
+        <button
+          onClick={togglePlaying}
+          className={`px-2 py-1 ${textSize} rounded bg-blue-600 text-white`}
+          aria-label={isPlaying ? 'Pause timeline' : 'Play timeline'}
+        >
+          {isPlaying ? 'Pause' : 'Play'}
+        </button>
+        <span className={`${isMobile ? 'text-sm' : 'text-base'} font-semibold text-gray-800`}>{year}</span>
+        <span className={`${textSize} text-gray-600`}>{current.toLocaleString()} boreholes</span>
+      </div>
+
+      <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-14" preserveAspectRatio="none">
+        <path d={area} fill="rgba(65, 182, 196, 0.5)" stroke="rgb(34, 94, 168)" strokeWidth={1} />
+        <line x1={xForYear(year)} x2={xForYear(year)} y1={0} y2={CHART_HEIGHT} stroke="rgb(215, 48, 39)" strokeWidth={1.5} />
+      </svg>
+
+      <input
+        type="range"
+        min={YEAR_RANGE[0]}
+        max={YEAR_RANGE[1]}
+        step={1}
+        value={year}
+        onChange={(e) => {
+          setIsPlaying(false);
+          onYearChange(Number(e.target.value));
+        }}
+        className="w-full h-1"
+        aria-label="Show boreholes recorded up to year"
+      />
+      <div className={`flex justify-between ${textSize} text-gray-500`}>
+        <span>{YEAR_RANGE[0]}</span>
+        <span>{YEAR_RANGE[1]}</span>
+      </div>
+
+      {undated > 0 && (
+        <p className={`mt-1 ${textSize} text-gray-500`}>
+          {undated.toLocaleString()} boreholes with no recorded date are not shown.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default TimelinePanel;
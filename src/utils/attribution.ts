@@ -0,0 +1,5 @@
+// Credit lines required by the data licences, shown in the sidebar and printed on exported maps
+export const BGS_ATTRIBUTION = 'Contains British Geological Survey materials © UKRI [2025]';
+export const OSM_ATTRIBUTION = 'Basemap © OpenStreetMap contributors';
+
+export const ATTRIBUTIONS = [BGS_ATTRIBUTION, OSM_ATTRIBUTION];
@@ -0,0 +1,21 @@
+import { GeoBoundingBox, TileLayer } from '@deck.gl/geo-layers';
+import { BitmapLayer } from '@deck.gl/layers';
+
+// OpenStreetMap raster tiles, shared by the map and the rendered exports
+export const createBasemapLayer = (visible: boolean, id = 'basemap') => new TileLayer({
+  id,
+  data: 'https://tile.openstreetmap.org/{z}/{x}/{y}.png',
+  minZoom: 0,
+  maxZoom: 19,
+  tileSize: 256,
+  visible,
+  renderSubLayers: props => {
+    // Web Mercator tiles always carry a geographic bounding box
+    const { west, south, east, north } = props.tile.bbox as GeoBoundingBox;
+    const bounds: [number, number, number, number] = [west, south, east, north];
+    // The tile image is the bitmap itself rather than data for the sublayer
+    const { data: image, ...layerProps } = props;
+
+    return new BitmapLayer({ ...layerProps, image, bounds });
+  }
+});
@@ -0,0 +1,260 @@
+import { cellArea, cellToParent } from 'h3-js';
+import { aggregateToResolution, HexagonData } from './processData';
+import { FINEST_RESOLUTION } from './hexData';
+import { HexColumns, createHexColumns, hexagonsToColumns, setHexCounts } from './hexColumns';
+import { readParquetTable } from './parquet';
+
+// Per-borehole attributes for the whole index, keyed by the finest hex cell. Unknown values are NaN.
+export interface BoreholeAttributes {
+  cells: string[];
+  lengths: Float64Array;
+  years: Float64Array;
+  hasAgs: Uint8Array;
+}
+
+export interface BoreholeFilters {
+  minLength: number;
+  maxLength: number;
+  minYear: number;
+  maxYear: number;
+  agsOnly: boolean;
+  // Leave out boreholes with no recorded year even when the year range is not narrowed
+  datedOnly?: boolean;
+}
+
+export interface YearCount {
+  year: number;
+  count: number;
+}
+
+export interface YearCounts {
+  counts: YearCount[];
+  undated: number;
+}
+
+// Slider extents; the top of each range is open-ended so the deepest and newest records are never cut off
+export const LENGTH_RANGE: [number, number] = [0, 300];
+export const YEAR_RANGE: [number, number] = [1850, new Date().getFullYear()];
+
+export const DEFAULT_FILTERS: BoreholeFilters = {
+  minLength: LENGTH_RANGE[0],
+  maxLength: LENGTH_RANGE[1],
+  minYear: YEAR_RANGE[0],
+  maxYear: YEAR_RANGE[1],
+  agsOnly: false
+};
+
+const isLengthFiltered = (filters: BoreholeFilters) =>
+  filters.minLength > LENGTH_RANGE[0] || filters.maxLength < LENGTH_RANGE[1];
+
+const isYearFiltered = (filters: BoreholeFilters) =>
+  filters.datedOnly || filters.minYear > YEAR_RANGE[0] || filters.maxYear < YEAR_RANGE[1];
+
+export const isFiltered = (filters: BoreholeFilters) =>
+  filters.agsOnly || isLengthFiltered(filters) || isYearFiltered(filters);
+
+const inRange = (value: number | null, min: number, max: number, range: [number, number]) => {
+  if (value === null || Number.isNaN(value)) return false;
+  if (min > range[0] && value < min) return false;
+  if (max < range[1] && value > max) return false;
+  return true;
+};
+
+// Records without a length or year only drop out once that range has been narrowed
+export const matchesFilters = (
+  length: number | null,
+  year: number | null,
+  hasAGS: boolean,
+  filters: BoreholeFilters
+) => {
+  if (filters.agsOnly && !hasAGS) return false;
+  if (isLengthFiltered(filters) && !inRange(length, filters.minLength, filters.maxLength, LENGTH_RANGE)) return false;
+  if (isYearFiltered(filters) && !inRange(year, filters.minYear, filters.maxYear, YEAR_RANGE)) return false;
+  return true;
+};
+
+// The timeline shows dated boreholes recorded up to the chosen year, within any other filters
+export const limitToYear = (filters: BoreholeFilters, year: number): BoreholeFilters => ({
+  ...filters,
+  maxYear: Math.min(filters.maxYear, year),
+  datedOnly: true
+});
+
+// Parsed once by whichever thread does the counting: the hex worker, or the main thread where there is none
+let attributesPromise: Promise<BoreholeAttributes> | null = null;
+
+const loadBoreholeAttributes = async (): Promise<BoreholeAttributes> => {
+  let table;
+  try {
+    table = await readParquetTable('/boreholedensitymap/data/borehole_attributes.parquet');
+  } catch (e) {
+    throw new Error('Failed to load borehole attributes');
+  }
+
+  const cellColumn = table.getChild('cell');
+  const lengthColumn = table.getChild('length');
+  const yearColumn = table.getChild('year');
+  const agsColumn = table.getChild('has_ags');
+
+  const attributes: BoreholeAttributes = {
+    cells: new Array(table.numRows),
+    lengths: new Float64Array(table.numRows),
+    years: new Float64Array(table.numRows),
+    hasAgs: new Uint8Array(table.numRows)
+  };
+
+  for (let i = 0; i < table.numRows; i++) {
+    const length = lengthColumn.get(i);
+    const year = yearColumn.get(i);
+    attributes.cells[i] = String(cellColumn.get(i));
+    attributes.lengths[i] = length === null ? NaN : Number(length);
+    attributes.years[i] = year === null ? NaN : Number(year);
+    attributes.hasAgs[i] = agsColumn.get(i) ? 1 : 0;
+  }
+
+  return attributes;
+};
+
+export const getBoreholeAttributes = () => {
+  if (!attributesPromise) {
+    attributesPromise = loadBoreholeAttributes().catch(error => {
+      attributesPromise = null;
+      throw error;
+    });
+  }
+  return attributesPromise;
+};
+
+// Recount the hexes from individual boreholes so the layer reflects only the records that pass the filters
+export const recountHexes = (attributes: BoreholeAttributes, resolution: number, filters: BoreholeFilters): HexColumns => {
+  const { cells, lengths, years, hasAgs } = attributes;
+
+  const finestCounts = new Map<string, HexagonData>();
+  for (let i = 0; i < cells.length; i++) {
+    if (!matchesFilters(lengths[i], years[i], hasAgs[i] === 1, filters)) continue;
+
+    const hexagon = finestCounts.get(cells[i]) || { hexId: cells[i], count: 0, AGS_count: 0 };
+    hexagon.count += 1;
+    hexagon.AGS_count += hasAgs[i];
+    finestCounts.set(cells[i], hexagon);
+  }
+
+  const counts = Array.from(finestCounts.values());
+  return hexagonsToColumns(resolution < FINEST_RESOLUTION ? aggregateToResolution(counts, resolution) : counts);
+};
+
+// Dated boreholes that pass every filter but the upper year, ordered by year, so the timeline can step
+// between years by adding or removing one year's boreholes instead of recounting the whole index.
+// Records from before the start of the range sit in its first year, as in countYears.
+export interface YearIndex {
+  // Cells at the requested resolution that hold at least one of the boreholes
+  cells: string[];
+  // Per borehole in year order, the position of its cell in cells
+  cellIndices: Int32Array;
+  hasAgs: Uint8Array;
+  // Boreholes from YEAR_RANGE[0] + i are at [yearStarts[i], yearStarts[i + 1])
+  yearStarts: Int32Array;
+}
+
+const yearOffset = (year: number) => Math.max(0, Math.min(YEAR_RANGE[1] - YEAR_RANGE[0], year - YEAR_RANGE[0]));
+
+export const buildYearIndex = (attributes: BoreholeAttributes, resolution: number, filters: BoreholeFilters): YearIndex => {
+  const { cells, lengths, years, hasAgs } = attributes;
+  const untilNow = { ...filters, maxYear: YEAR_RANGE[1], datedOnly: true };
+  const yearCount = YEAR_RANGE[1] - YEAR_RANGE[0] + 1;
+
+  // Counting sort by year: size each year's slot, then fill them
+  const matched = new Uint8Array(cells.length);
+  const yearStarts = new Int32Array(yearCount + 1);
+  for (let i = 0; i < cells.length; i++) {
+    if (!matchesFilters(lengths[i], years[i], hasAgs[i] === 1, untilNow)) continue;
+    matched[i] = 1;
+    yearStarts[yearOffset(years[i]) + 1]++;
+  }
+  for (let y = 0; y < yearCount; y++) {
+    yearStarts[y + 1] += yearStarts[y];
+  }
+
+  const indexCells: string[] = [];
+  const indexPositions = new Map<string, number>();
+  // Finest cell to position, so each finest cell is only looked up at the coarser resolution once
+  const cellPositions = new Map<string, number>();
+  const next = yearStarts.slice(0, yearCount);
+  const cellIndices = new Int32Array(yearStarts[yearCount]);
+  const indexAgs = new Uint8Array(yearStarts[yearCount]);
+  for (let i = 0; i < cells.length; i++) {
+    if (!matched[i]) continue;
+    let position = cellPositions.get(cells[i]);
+    if (position === undefined) {
+      const cell = resolution < FINEST_RESOLUTION ? cellToParent(cells[i], resolution) : cells[i];
+      position = indexPositions.get(cell);
+      if (position === undefined) {
+        position = indexCells.push(cell) - 1;
+        indexPositions.set(cell, position);
+      }
+      cellPositions.set(cells[i], position);
+    }
+    const slot = next[yearOffset(years[i])]++;
+    cellIndices[slot] = position;
+    indexAgs[slot] = hasAgs[i];
+  }
+
+  return { cells: indexCells, cellIndices, hasAgs: indexAgs, yearStarts };
+};
+
+// Running counts for one index, moved forwards or backwards a year at a time as the timeline plays
+export const createYearStepper = (index: YearIndex) => {
+  const counts = new Int32Array(index.cells.length);
+  const agsCounts = new Int32Array(index.cells.length);
+  const areas = new Float64Array(index.cells.length).fill(NaN);
+  let counted = 0;
+
+  return (year: number): HexColumns => {
+    const target = index.yearStarts[yearOffset(year) + 1];
+    for (; counted < target; counted++) {
+      counts[index.cellIndices[counted]]++;
+      agsCounts[index.cellIndices[counted]] += index.hasAgs[counted];
+    }
+    for (; counted > target; counted--) {
+      counts[index.cellIndices[counted - 1]]--;
+      agsCounts[index.cellIndices[counted - 1]] -= index.hasAgs[counted - 1];
+    }
+
+    const rows: number[] = [];
+    for (let i = 0; i < counts.length; i++) {
+      if (counts[i] > 0) rows.push(i);
+    }
+
+    const columns = createHexColumns(rows.map(i => index.cells[i]));
+    rows.forEach((i, row) => {
+      if (Number.isNaN(areas[i])) areas[i] = cellArea(index.cells[i], 'km2');
+      setHexCounts(columns, row, counts[i], agsCounts[i], areas[i]);
+    });
+    return columns;
+  };
+};
+
+// Running total of dated boreholes by year under the current filters, ignoring any upper year limit,
+// plus how many have no year. Records from before the start of the range are counted in its first year.
+export const countYears = (attributes: BoreholeAttributes, filters: BoreholeFilters): YearCounts => {
+  const { lengths, years, hasAgs } = attributes;
+  const untilNow = { ...filters, maxYear: YEAR_RANGE[1], datedOnly: false };
+
+  const perYear = new Float64Array(YEAR_RANGE[1] - YEAR_RANGE[0] + 1);
+  let undated = 0;
+  for (let i = 0; i < years.length; i++) {
+    if (!matchesFilters(lengths[i], years[i], hasAgs[i] === 1, untilNow)) continue;
+    if (Number.isNaN(years[i])) {
+      undated++;
+    } else {
+      perYear[Math.max(0, Math.min(perYear.length - 1, years[i] - YEAR_RANGE[0]))]++;
+    }
+  }
+
+  let total = 0;
+  const counts = Array.from(perYear, (count, i) => {
+    total += count;
+    return { year: YEAR_RANGE[0] + i, count: total };
+  });
+  return { counts, undated };
+};
@@ -0,0 +1,169 @@
+export type ClassificationScheme = 'linear' | 'logarithmic' | 'quantile' | 'equal_interval' | 'jenks' | 'manual';
+
+export const CLASSIFICATION_SCHEMES: { value: ClassificationScheme; label: string }[] = [
+  { value: 'linear', label: 'Linear' },
+  { value: 'logarithmic', label: 'Logarithmic' },
+  { value: 'quantile', label: 'Quantile' },
+  { value: 'equal_interval', label: 'Equal interval' },
+  { value: 'jenks', label: 'Jenks natural breaks' },
+  { value: 'manual', label: 'Manual breaks' }
+];
+
+export const CLASS_COUNTS = [3, 4, 5, 6, 7, 8, 9];
+export const DEFAULT_CLASS_COUNT = 5;
+
+// What the user has picked; manual breaks are kept as typed so the input can be edited freely
+export interface ClassificationSettings {
+  scheme: ClassificationScheme;
+  classCount: number;
+  manualBreaks: string;
+}
+
+// Linear and logarithmic stretch colours continuously; the rest assign each value to a class
+export const isContinuousScheme = (scheme: ClassificationScheme) =>
+  scheme === 'linear' || scheme === 'logarithmic';
+
+// For continuous schemes the breaks are just legend ticks; for classed schemes they are the
+// class edges, from the minimum to the maximum, so there is one more break than classes
+export interface Classification {
+  scheme: ClassificationScheme;
+  breaks: number[];
+  min: number;
+  max: number;
+}
+
+// Jenks is quadratic in the number of values, so large layers are classified from an even sample
+const MAX_JENKS_VALUES = 1000;
+
+const sampleSorted = (sorted: number[], size: number) => {
+  if (sorted.length <= size) return sorted;
+  return Array.from({ length: size }, (_, i) => sorted[Math.round((i * (sorted.length - 1)) / (size - 1))]);
+};
+
+const quantileBreaks = (sorted: number[], classCount: number) =>
+  Array.from({ length: classCount - 1 }, (_, i) => sorted[Math.floor(((i + 1) * sorted.length) / classCount)]);
+
+const equalIntervalBreaks = (min: number, max: number, classCount: number) =>
+  Array.from({ length: classCount - 1 }, (_, i) => min + ((i + 1) * (max - min)) / classCount);
+
+// Fisher-Jenks optimal breaks minimising the within-class variance
+const jenksBreaks = (sorted: number[], classCount: number): number[] => {
+  const values = sampleSorted(sorted, MAX_JENKS_VALUES);
+  const n = values.length;
+  const k = Math.min(classCount, n);
+  if (k < 2) return [];
+
+  const lowerLimits: number[][] = Array.from({ length: n + 1 }, () => new Array(k + 1).fill(0));
+  const variances: number[][] = Array.from({ length: n + 1 }, () => new Array(k + 1).fill(Infinity));
+  for (let j = 1; j <= k; j++) {
+    lowerLimits[1][j] = 1;
+    variances[1][j] = 0;
+  }
+
+  for (let l = 2; l <= n; l++) {
+    let sum = 0;
+    let sumSquares = 0;
+    let variance = 0;
+    for (let m = 1; m <= l; m++) {
+      const lowerIndex = l - m + 1;
+      const value = values[lowerIndex - 1];
+      sum += value;
+      sumSquares += value * value;
+      variance = sumSquares - (sum * sum) / m;
+      if (lowerIndex > 1) {
+        for (let j = 2; j <= k; j++) {
+          if (variances[l][j] >= variance + variances[lowerIndex - 1][j - 1]) {
+            lowerLimits[l][j] = lowerIndex;
+            variances[l][j] = variance + variances[lowerIndex - 1][j - 1];
+          }
+        }
+      }
+    }
+    lowerLimits[l][1] = 1;
+    variances[l][1] = variance;
+  }
+
+  const breaks: number[] = [];
+  let upper = n;
+  for (let j = k; j >= 2; j--) {
+    const lowerIndex = lowerLimits[upper][j] - 1;
+    breaks.unshift(values[lowerIndex - 1]);
+    upper = lowerIndex;
+  }
+  return breaks;
+};
+
+// Evenly spaced legend ticks, in log space for the logarithmic stretch
+const continuousTicks = (scheme: ClassificationScheme, min: number, max: number, count = 5) =>
+  Array.from({ length: count }, (_, i) => {
+    const fraction = i / (count - 1);
+    return scheme === 'logarithmic'
+      ? min + Math.expm1(fraction * Math.log1p(max - min))
+      : min + fraction * (max - min);
+  });
+
+export const parseManualBreaks = (text: string): number[] =>
+  text
+    .split(/[,\s]+/)
+    .map(part => parseFloat(part))
+    .filter(value => Number.isFinite(value))
+    .sort((a, b) => a - b);
+
+// Classify a layer's values. The domain starts at min (zero for counts) and ends at max, unless the
+// values run past it.
+export const classify = (
+  values: number[],
+  scheme: ClassificationScheme,
+  { classCount = DEFAULT_CLASS_COUNT, manualBreaks = [], min = 0, max }: {
+    classCount?: number;
+    manualBreaks?: number[];
+    min?: number;
+    max?: number;
+  } = {}
+): Classification => {
+  const sorted = values.filter(value => Number.isFinite(value)).sort((a, b) => a - b);
+  const domainMin = Math.min(min, sorted[0] ?? min);
+  const domainMax = Math.max(max ?? sorted[sorted.length - 1] ?? domainMin, sorted[sorted.length - 1] ?? domainMin);
+
+  if (isContinuousScheme(scheme)) {
+    return { scheme, breaks: continuousTicks(scheme, domainMin, domainMax), min: domainMin, max: domainMax };
+  }
+
+  let inner: number[];
+  if (scheme === 'quantile') {
+    inner = sorted.length > 0 ? quantileBreaks(sorted, classCount) : [];
+  } else if (scheme === 'equal_interval') {
+    inner = equalIntervalBreaks(domainMin, domainMax, classCount);
+  } else if (scheme === 'jenks') {
+    inner = jenksBreaks(sorted, classCount);
+  } else {
+    inner = manualBreaks;
+  }
+
+  // Drop repeated or out-of-range edges, which skewed data can produce for quantiles
+  const edges = [domainMin, ...inner.filter(value => value > domainMin && value < domainMax), domainMax];
+  const breaks = edges.filter((value, i) => i === 0 || value > edges[i - 1]);
+  return { scheme, breaks, min: domainMin, max: domainMax };
+};
+
+// Position of a value along the colour ramp, from 0 to 1
+export const normalizeValue = (value: number, { scheme, breaks, min, max }: Classification): number => {
+  if (max <= min) return 1;
+
+  if (scheme === 'linear') {
+    return Math.max(0, Math.min(1, (value - min) / (max - min)));
+  }
+  if (scheme === 'logarithmic') {
+    return Math.max(0, Math.min(1, Math.log1p(Math.max(0, value - min)) / Math.log1p(max - min)));
+  }
+
+  const classCount = breaks.length - 1;
+  if (classCount <= 1) return 1;
+  let classIndex = 0;
+  while (classIndex < classCount - 1 && value > breaks[classIndex + 1]) classIndex++;
+  return classIndex / (classCount - 1);
+};
+
+// Short legend numbers: whole numbers above ten, one decimal place below
+export const formatBreak = (value: number) =>
+  Math.abs(value) >= 10 ? Math.round(value).toLocaleString() : value.toFixed(1).replace(/\.0$/, '');
@@ -0,0 +1,41 @@
+import { HexCell } from './hexData';
+import { HexColumns, createHexColumns, setHexCounts } from './hexColumns';
+import { HexagonData } from './processData';
+
+export interface ComparisonCell extends HexCell {
+  user_count: number;
+  difference: number;
+  ratio: number | null;
+  user_only: number;
+}
+
+export const COMPARISON_METRICS = ['difference', 'ratio', 'user_only'];
+
+export const isComparisonMetric = (metric: string) => COMPARISON_METRICS.includes(metric);
+
+// Join the uploaded hexes onto the BGS hexes at the same resolution. Cells that only one side
+// has are kept so that gaps in the public index show up as well as overlaps.
+export const compareWithBgs = (bgs: HexColumns, userCells: HexagonData[]): HexColumns => {
+  const userCounts = new Map(userCells.map(cell => [cell.hexId, cell.count]));
+  const bgsHexes = new Set(bgs.hex);
+  const userOnly = userCells.map(cell => cell.hexId).filter(hex => !bgsHexes.has(hex));
+
+  const bgsMetrics = Object.keys(bgs.metrics);
+  const columns = createHexColumns([...bgs.hex, ...userOnly], [...bgsMetrics, 'user_count', ...COMPARISON_METRICS]);
+  const { metrics } = columns;
+  // Cells only in the upload have no BGS depth figures
+  bgsMetrics.forEach(metric => metrics[metric].fill(NaN, bgs.hex.length).set(bgs.metrics[metric]));
+
+  columns.hex.forEach((hex, row) => {
+    const isUserOnly = row >= bgs.hex.length;
+    if (isUserOnly) setHexCounts(columns, row, 0, 0);
+    const count = metrics.count[row];
+    const userCount = userCounts.get(hex) || 0;
+    metrics.user_count[row] = userCount;
+    metrics.difference[row] = userCount - count;
+    metrics.ratio[row] = count > 0 ? userCount / count : NaN;
+    metrics.user_only[row] = isUserOnly ? 1 : 0;
+  });
+
+  return columns;
+};
@@ -0,0 +1,205 @@
+import { latLngToCell } from 'h3-js';
+import { Feature, LineString, MultiLineString, Position } from 'geojson';
+import { BoreholePointRecord, POINT_CHUNK_RESOLUTION, getPointChunk } from './pointData';
+
+export interface CorridorLine {
+  name: string;
+  coordinates: Position[];
+}
+
+export interface CorridorSelection {
+  line: CorridorLine;
+  bufferMeters: number;
+}
+
+export interface ChainageBin {
+  start: number;
+  end: number;
+  count: number;
+  AGS_count: number;
+}
+
+export interface CorridorResult {
+  lengthMeters: number;
+  areaKm2: number;
+  count: number;
+  AGS_count: number;
+  bins: ChainageBin[];
+}
+
+const METERS_PER_DEGREE_LAT = 110540;
+const METERS_PER_DEGREE_LNG_AT_EQUATOR = 111320;
+
+// Keep the number of corridor samples bounded for long routes and wide buffers
+const MAX_SAMPLES = 200000;
+
+// Split uploaded features into the individual lines a corridor can follow
+export const getCorridorLines = (geojson: any): CorridorLine[] => {
+  if (!geojson) return [];
+  const features: Feature[] = geojson.type === 'FeatureCollection' ? geojson.features : [geojson];
+  const lines: CorridorLine[] = [];
+
+  features.forEach((feature, i) => {
+    const name = feature?.properties?.name || `Line ${i + 1}`;
+    if (feature?.geometry?.type === 'LineString') {
+      lines.push({ name, coordinates: (feature.geometry as LineString).coordinates });
+    } else if (feature?.geometry?.type === 'MultiLineString') {
+      (feature.geometry as MultiLineString).coordinates.forEach((coordinates, part) => {
+        lines.push({ name: `${name} (part ${part + 1})`, coordinates });
+      });
+    }
+  });
+
+  return lines.filter(line => line.coordinates.length >= 2);
+};
+
+// A local equirectangular projection in metres, accurate enough over the length of a scheme
+const createLocalProjection = (coordinates: Position[]) => {
+  const lat0 = coordinates.reduce((sum, [, lat]) => sum + lat, 0) / coordinates.length;
+  const lng0 = coordinates[0][0];
+  const metersPerDegreeLng = METERS_PER_DEGREE_LNG_AT_EQUATOR * Math.cos(lat0 * Math.PI / 180);
+
+  return {
+    project: ([lng, lat]: Position): [number, number] =>
+      [(lng - lng0) * metersPerDegreeLng, (lat - lat0) * METERS_PER_DEGREE_LAT],
+    unproject: ([x, y]: [number, number]): [number, number] =>
+      [lng0 + x / metersPerDegreeLng, lat0 + y / METERS_PER_DEGREE_LAT]
+  };
+};
+
+// Chainage in the usual km+m form, e.g. 1+250. Rounded to the metre first so 1999.6 m reads 2+000, not 1+1000
+export const formatChainage = (meters: number) => {
+  const rounded = Math.round(meters);
+  return `${Math.floor(rounded / 1000)}+${String(rounded % 1000).padStart(3, '0')}`;
+};
+
+export const lineLengthMeters = (coordinates: Position[]): number => {
+  const { project } = createLocalProjection(coordinates);
+  const points = coordinates.map(project);
+  let length = 0;
+  for (let i = 1; i < points.length; i++) {
+    length += Math.hypot(points[i][0] - points[i - 1][0], points[i][1] - points[i - 1][1]);
+  }
+  return length;
+};
+
+// Distance from a point to a segment, and how far along the segment it projects
+const distanceToSegment = ([x, y]: [number, number], [x1, y1]: [number, number], [x2, y2]: [number, number]) => {
+  const lengthSquared = (x2 - x1) ** 2 + (y2 - y1) ** 2;
+  const t = lengthSquared > 0 ? Math.max(0, Math.min(1, ((x - x1) * (x2 - x1) + (y - y1) * (y2 - y1)) / lengthSquared)) : 0;
+  return { distance: Math.hypot(x - (x1 + t * (x2 - x1)), y - (y1 + t * (y2 - y1))), t };
+};
+
+// Measure the buffer either side of a line and find the point chunks it touches. The corridor is
+// sampled on a regular grid, segment by segment against each segment's bounding box, and each grid
+// point is only counted once.
+const measureCorridor = (
+  coordinates: Position[],
+  bufferMeters: number
+): { areaKm2: number; chunks: string[] } => {
+  const { project, unproject } = createLocalProjection(coordinates);
+  const points = coordinates.map(project);
+
+  let searchArea = 0;
+  for (let i = 1; i < points.length; i++) {
+    searchArea += (Math.abs(points[i][0] - points[i - 1][0]) + 2 * bufferMeters) *
+      (Math.abs(points[i][1] - points[i - 1][1]) + 2 * bufferMeters);
+  }
+  const step = Math.max(Math.min(25, bufferMeters / 2), Math.sqrt(searchArea / MAX_SAMPLES));
+
+  const visited = new Set<string>();
+  const chunks = new Set<string>();
+
+  for (let i = 1; i < points.length; i++) {
+    const [x1, y1] = points[i - 1];
+    const [x2, y2] = points[i];
+    const segmentLength = Math.hypot(x2 - x1, y2 - y1);
+    if (segmentLength === 0) continue;
+
+    const minI = Math.ceil((Math.min(x1, x2) - bufferMeters) / step);
+    const maxI = Math.floor((Math.max(x1, x2) + bufferMeters) / step);
+    const minJ = Math.ceil((Math.min(y1, y2) - bufferMeters) / step);
+    const maxJ = Math.floor((Math.max(y1, y2) + bufferMeters) / step);
+
+    for (let gi = minI; gi <= maxI; gi++) {
+      for (let gj = minJ; gj <= maxJ; gj++) {
+        const x = gi * step;
+        const y = gj * step;
+        if (distanceToSegment([x, y], points[i - 1], points[i]).distance > bufferMeters) continue;
+
+        const key = `${gi}:${gj}`;
+        if (visited.has(key)) continue;
+        visited.add(key);
+
+        const [lng, lat] = unproject([x, y]);
+        chunks.add(latLngToCell(lat, lng, POINT_CHUNK_RESOLUTION));
+      }
+    }
+  }
+
+  return { areaKm2: (visited.size * step * step) / 1e6, chunks: Array.from(chunks) };
+};
+
+// Count the boreholes within the buffer of a line, each binned by the chainage of the nearest point on the line
+export const countCorridorBoreholes = (
+  coordinates: Position[],
+  bufferMeters: number,
+  intervalMeters: number,
+  boreholes: BoreholePointRecord[]
+): ChainageBin[] => {
+  const { project } = createLocalProjection(coordinates);
+  const points = coordinates.map(project);
+  const lengthMeters = lineLengthMeters(coordinates);
+
+  const bins: ChainageBin[] = Array.from({ length: Math.max(1, Math.ceil(lengthMeters / intervalMeters)) }, (_, i) => ({
+    start: i * intervalMeters,
+    end: Math.min((i + 1) * intervalMeters, lengthMeters),
+    count: 0,
+    AGS_count: 0
+  }));
+
+  const offsets = [0];
+  for (let i = 1; i < points.length; i++) {
+    offsets.push(offsets[i - 1] + Math.hypot(points[i][0] - points[i - 1][0], points[i][1] - points[i - 1][1]));
+  }
+
+  boreholes.forEach(borehole => {
+    const position = project([borehole.longitude, borehole.latitude]);
+    let nearest = Infinity;
+    let chainage = 0;
+    for (let i = 1; i < points.length; i++) {
+      const { distance, t } = distanceToSegment(position, points[i - 1], points[i]);
+      if (distance < nearest) {
+        nearest = distance;
+        chainage = offsets[i - 1] + t * (offsets[i] - offsets[i - 1]);
+      }
+    }
+    if (nearest > bufferMeters) return;
+
+    const bin = bins[Math.min(bins.length - 1, Math.floor(chainage / intervalMeters))];
+    bin.count++;
+    if (borehole.hasAGS) bin.AGS_count++;
+  });
+
+  return bins;
+};
+
+// Only the point chunks the corridor passes through are loaded, so long routes do not pull in
+// everything inside their bounding box
+export const analyseCorridor = async (
+  coordinates: Position[],
+  bufferMeters: number,
+  intervalMeters: number
+): Promise<CorridorResult> => {
+  const { areaKm2, chunks } = measureCorridor(coordinates, bufferMeters);
+  const loaded = await Promise.all(chunks.map(getPointChunk));
+  const bins = countCorridorBoreholes(coordinates, bufferMeters, intervalMeters, loaded.flat());
+
+  return {
+    lengthMeters: lineLengthMeters(coordinates),
+    areaKm2,
+    count: bins.reduce((total, bin) => total + bin.count, 0),
+    AGS_count: bins.reduce((total, bin) => total + bin.AGS_count, 0),
+    bins
+  };
+};
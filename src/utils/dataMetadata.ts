@@ -0,0 +1,22 @@
+// Written by the preprocessing scripts alongside the parquet files
+export interface DataMetadata {
+  // ISO date the SOBI download was taken
+  source_date: string;
+  // ISO date the hex and point files were generated
+  processed: string;
+}
+
+let metadataPromise: Promise<DataMetadata | null> | null = null;
+
+// Data folders built before the metadata file existed have no date, so this resolves to null rather than failing
+export const getDataMetadata = (): Promise<DataMetadata | null> => {
+  if (!metadataPromise) {
+    metadataPromise = fetch('/boreholedensitymap/data/metadata.json')
+      .then(response => (response.ok ? response.json() : null))
+      .catch(error => {
+        console.error('Error loading data metadata:', error);
+        return null;
+      });
+  }
+  return metadataPromise;
+};
@@ -0,0 +1,94 @@
+import { cellToParent, latLngToCell } from 'h3-js';
+import { FINEST_RESOLUTION, HexCell } from './hexData';
+import { COUNT_METRICS, HexColumns, createHexColumns, setHexCounts } from './hexColumns';
+import { BoreholeAttributes, BoreholeFilters, matchesFilters } from './boreholeAttributes';
+import type { BoreholePointRecord } from './pointData';
+
+// A BGS cell with drilled length statistics; the depth figures are null where no borehole has a recorded length
+export interface DepthCell extends HexCell {
+  depth_count: number;
+  mean_depth: number | null;
+  median_depth: number | null;
+  max_depth: number | null;
+  deeper_count: number;
+}
+
+export const DEPTH_METRICS = ['mean_depth', 'median_depth', 'max_depth', 'deeper_count'];
+
+export const isDepthMetric = (metric: string) => DEPTH_METRICS.includes(metric);
+
+export const DEFAULT_DEEPER_THAN = 20;
+
+const median = (sorted: number[]) => {
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+type DepthGroup = { count: number; AGS_count: number; depths: number[] };
+
+const addToGroup = (groups: Map<string, DepthGroup>, hex: string, length: number | null, hasAGS: boolean) => {
+  const group = groups.get(hex) || { count: 0, AGS_count: 0, depths: [] };
+  group.count += 1;
+  group.AGS_count += hasAGS ? 1 : 0;
+  if (length !== null && !Number.isNaN(length)) group.depths.push(length);
+  groups.set(hex, group);
+};
+
+const toDepthColumns = (groups: Map<string, DepthGroup>, deeperThan: number): HexColumns => {
+  const columns = createHexColumns(Array.from(groups.keys()), [...COUNT_METRICS, 'depth_count', ...DEPTH_METRICS]);
+  const { metrics } = columns;
+  Array.from(groups.values()).forEach(({ count, AGS_count, depths }, row) => {
+    depths.sort((a, b) => a - b);
+    const known = depths.length > 0;
+    setHexCounts(columns, row, count, AGS_count);
+    metrics.depth_count[row] = depths.length;
+    metrics.mean_depth[row] = known ? depths.reduce((sum, depth) => sum + depth, 0) / depths.length : NaN;
+    metrics.median_depth[row] = known ? median(depths) : NaN;
+    metrics.max_depth[row] = known ? depths[depths.length - 1] : NaN;
+    metrics.deeper_count[row] = depths.filter(depth => depth > deeperThan).length;
+  });
+  return columns;
+};
+
+// Depth statistics are built straight from individual boreholes at the requested resolution,
+// since medians cannot be rolled up from the finer cells
+export const recountDepthHexes = (
+  attributes: BoreholeAttributes,
+  resolution: number,
+  filters: BoreholeFilters,
+  deeperThan: number
+): HexColumns => {
+  const { cells, lengths, years, hasAgs } = attributes;
+
+  const parents = new Map<string, string>();
+  const groups = new Map<string, DepthGroup>();
+
+  for (let i = 0; i < cells.length; i++) {
+    if (!matchesFilters(lengths[i], years[i], hasAgs[i] === 1, filters)) continue;
+
+    let hex = cells[i];
+    if (resolution < FINEST_RESOLUTION) {
+      if (!parents.has(hex)) parents.set(hex, cellToParent(hex, resolution));
+      hex = parents.get(hex);
+    }
+
+    addToGroup(groups, hex, lengths[i], hasAgs[i] === 1);
+  }
+
+  return toDepthColumns(groups, deeperThan);
+};
+
+// The same statistics for resolutions finer than the attribute table, from the borehole points in view
+export const getPointDepthHexData = (
+  points: BoreholePointRecord[],
+  resolution: number,
+  filters: BoreholeFilters,
+  deeperThan: number
+): HexColumns => {
+  const groups = new Map<string, DepthGroup>();
+  points.forEach(point => {
+    if (!matchesFilters(point.length, point.year, point.hasAGS, filters)) return;
+    addToGroup(groups, latLngToCell(point.latitude, point.longitude, resolution), point.length, point.hasAGS);
+  });
+  return toDepthColumns(groups, deeperThan);
+};
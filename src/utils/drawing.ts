@@ -0,0 +1,101 @@
+import { Feature, FeatureCollection, Polygon, Position } from 'geojson';
+import { downloadBlob } from './download';
+
+export type DrawMode = 'none' | 'polygon' | 'rectangle' | 'circle' | 'freehand' | 'edit';
+
+export type ShapeType = 'polygon' | 'rectangle' | 'circle' | 'freehand';
+
+export interface DrawnShapeProperties {
+  name: string;
+  shape: ShapeType;
+  center?: Position;
+  radius?: number;
+}
+
+export type DrawnShape = Feature<Polygon, DrawnShapeProperties>;
+
+export const EMPTY_DRAWN_SHAPES: FeatureCollection<Polygon, DrawnShapeProperties> = {
+  type: 'FeatureCollection',
+  features: []
+};
+
+const EARTH_RADIUS_METERS = 6371008.8;
+const CIRCLE_STEPS = 64;
+
+const toRadians = (degrees: number) => degrees * Math.PI / 180;
+const toDegrees = (radians: number) => radians * 180 / Math.PI;
+
+// Great-circle distance between two [lng, lat] positions
+export const distanceMeters = ([lng1, lat1]: Position, [lng2, lat2]: Position): number => {
+  const dLat = toRadians(lat2 - lat1);
+  const dLng = toRadians(lng2 - lng1);
+  const a = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.sqrt(a));
+};
+
+// Position reached by travelling a distance along a bearing (degrees clockwise from north)
+export const destination = ([lng, lat]: Position, distance: number, bearing: number): Position => {
+  const angular = distance / EARTH_RADIUS_METERS;
+  const theta = toRadians(bearing);
+  const phi1 = toRadians(lat);
+  const lambda1 = toRadians(lng);
+
+  const phi2 = Math.asin(
+    Math.sin(phi1) * Math.cos(angular) + Math.cos(phi1) * Math.sin(angular) * Math.cos(theta)
+  );
+  const lambda2 = lambda1 + Math.atan2(
+    Math.sin(theta) * Math.sin(angular) * Math.cos(phi1),
+    Math.cos(angular) - Math.sin(phi1) * Math.sin(phi2)
+  );
+
+  return [toDegrees(lambda2), toDegrees(phi2)];
+};
+
+export const closeRing = (ring: Position[]): Position[] => [...ring, ring[0]];
+
+export const rectangleRing = ([lng1, lat1]: Position, [lng2, lat2]: Position): Position[] =>
+  closeRing([[lng1, lat1], [lng2, lat1], [lng2, lat2], [lng1, lat2]]);
+
+export const circleRing = (center: Position, radius: number): Position[] =>
+  closeRing(Array.from({ length: CIRCLE_STEPS }, (_, i) => destination(center, radius, (360 / CIRCLE_STEPS) * i)));
+
+export const createShape = (
+  shape: ShapeType,
+  ring: Position[],
+  name: string,
+  extra: Partial<DrawnShapeProperties> = {}
+): DrawnShape => ({
+  type: 'Feature',
+  geometry: { type: 'Polygon', coordinates: [ring] },
+  properties: { name, shape, ...extra }
+});
+
+export const shapeLabel = (shape: ShapeType) => shape.charAt(0).toUpperCase() + shape.slice(1);
+
+// Move one vertex of the outer ring, keeping the closing vertex in step with the first.
+// Rectangles and freehand shapes become plain polygons once a vertex has been moved.
+export const moveVertex = (feature: DrawnShape, vertexIndex: number, position: Position): DrawnShape => {
+  const ring = feature.geometry.coordinates[0].slice();
+  const lastIndex = ring.length - 1;
+  ring[vertexIndex] = position;
+  if (vertexIndex === 0) ring[lastIndex] = position;
+  if (vertexIndex === lastIndex) ring[0] = position;
+
+  return {
+    ...feature,
+    geometry: { type: 'Polygon', coordinates: [ring, ...feature.geometry.coordinates.slice(1)] },
+    properties: { ...feature.properties, shape: 'polygon' }
+  };
+};
+
+export const resizeCircle = (feature: DrawnShape, radius: number): DrawnShape => ({
+  ...feature,
+  geometry: { type: 'Polygon', coordinates: [circleRing(feature.properties.center, radius)] },
+  properties: { ...feature.properties, radius }
+});
+
+export const downloadGeoJSON = (collection: FeatureCollection, fileName: string) => {
+  const blob = new Blob([JSON.stringify(collection, null, 2)], { type: 'application/geo+json' });
+  downloadBlob(blob, fileName);
+};
@@ -0,0 +1,194 @@
+import JSZip from 'jszip';
+import Papa from 'papaparse';
+import * as shapefile from 'shapefile';
+import { FeatureCollection } from 'geojson';
+import { BNG, WGS84, bngToWgs84, reprojectFeatureCollection } from './projection';
+import { Point } from './processData';
+
+export interface PointDataset {
+  name: string;
+  points: Point[];
+}
+
+export interface CsvTable {
+  fileName: string;
+  fields: string[];
+  rows: Record<string, string>[];
+}
+
+export interface CsvColumnMapping {
+  xField: string;
+  yField: string;
+  crs: typeof WGS84 | typeof BNG;
+}
+
+const stripExtension = (fileName: string) => fileName.replace(/\.[^.]+$/, '');
+
+export const parseGeoJSON = (text: string): FeatureCollection => {
+  const geojsonData = JSON.parse(text);
+
+  // Basic validation of GeoJSON data
+  if (!geojsonData.type || !['FeatureCollection', 'Feature'].includes(geojsonData.type)) {
+    throw new Error('Invalid GeoJSON format');
+  }
+
+  return geojsonData;
+};
+
+// Parse a zipped ESRI shapefile and reproject it to WGS84 using its .prj.
+// Client boundaries without a .prj are almost always British National Grid, so that is the fallback.
+export const parseZippedShapefile = async (file: File): Promise<FeatureCollection> => {
+  const zip = await JSZip.loadAsync(await file.arrayBuffer());
+  const findEntry = (extension: string) =>
+    Object.values(zip.files).find(entry => !entry.dir && entry.name.toLowerCase().endsWith(extension));
+
+  const shpEntry = findEntry('.shp');
+  if (!shpEntry) {
+    throw new Error('The zip file does not contain a .shp file');
+  }
+
+  const dbfEntry = findEntry('.dbf');
+  const prjEntry = findEntry('.prj');
+
+  const shp = await shpEntry.async('arraybuffer');
+  const dbf = dbfEntry ? await dbfEntry.async('arraybuffer') : undefined;
+  const prj = prjEntry ? (await prjEntry.async('string')).trim() : null;
+
+  const collection: FeatureCollection = await shapefile.read(shp, dbf);
+  const reprojected = reprojectFeatureCollection(collection, prj || BNG);
+
+  return {
+    ...reprojected,
+    name: stripExtension(file.name)
+  } as FeatureCollection;
+};
+
+export const parseCsv = (file: File): Promise<CsvTable> => new Promise((resolve, reject) => {
+  Papa.parse<Record<string, string>>(file, {
+    header: true,
+    skipEmptyLines: true,
+    complete: results => {
+      const fields = results.meta.fields || [];
+      if (fields.length < 2 || results.data.length === 0) {
+        reject(new Error('The CSV file needs a header row and at least one data row'));
+        return;
+      }
+      resolve({ fileName: file.name, fields, rows: results.data });
+    },
+    error: reject
+  });
+});
+
+const X_FIELD_PATTERNS = [/^(lon|long|longitude|lng)$/i, /^(x|easting|east|e)$/i, /nate$/i];
+const Y_FIELD_PATTERNS = [/^(lat|latitude)$/i, /^(y|northing|north|n)$/i, /natn$/i];
+
+// Guess the coordinate columns and CRS from the header names so the mapping step usually just needs confirming
+export const guessColumnMapping = (fields: string[]): CsvColumnMapping => {
+  const findField = (patterns: RegExp[]) =>
+    patterns.map(pattern => fields.find(field => pattern.test(field.trim()))).find(Boolean);
+
+  const xField = findField(X_FIELD_PATTERNS) || fields[0];
+  const yField = findField(Y_FIELD_PATTERNS) || fields[1];
+  const isLatLon = /^(lon|long|longitude|lng)$/i.test(xField.trim());
+
+  return { xField, yField, crs: isLatLon ? WGS84 : BNG };
+};
+
+// Rows whose coordinates are missing or not numeric are skipped
+export const pointsFromCsv = (table: CsvTable, mapping: CsvColumnMapping): PointDataset => {
+  const points: Point[] = [];
+
+  table.rows.forEach(row => {
+    const x = parseFloat(row[mapping.xField]);
+    const y = parseFloat(row[mapping.yField]);
+    if (!Number.isFinite(x) || !Number.isFinite(y)) return;
+
+    const [longitude, latitude] = mapping.crs === BNG ? bngToWgs84(x, y) : [x, y];
+    if (Math.abs(latitude) > 90 || Math.abs(longitude) > 180) return;
+
+    points.push({ latitude, longitude });
+  });
+
+  if (points.length === 0) {
+    throw new Error('No valid coordinates found in the selected columns');
+  }
+
+  return { name: stripExtension(table.fileName), points };
+};
+
+export interface AgsLocation {
+  LOCA_ID: string;
+  LOCA_NATE: number;
+  LOCA_NATN: number;
+  LOCA_GL: number | null;
+  LOCA_FDEP: number | null;
+  latitude: number;
+  longitude: number;
+  sourceFile: string;
+}
+
+export interface AgsDataset {
+  name: string;
+  locations: AgsLocation[];
+}
+
+const parseOptionalNumber = (value: string | undefined) => {
+  const parsed = parseFloat(value ?? '');
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+// Read the LOCA group of an AGS4 file. Each line is a quoted CSV row whose first field is the
+// descriptor (GROUP, HEADING, UNIT, TYPE or DATA); DATA rows line up with the preceding HEADING row.
+export const parseAgsLocations = (text: string, sourceFile: string): AgsLocation[] => {
+  const { data } = Papa.parse<string[]>(text, { header: false, skipEmptyLines: true });
+  const locations: AgsLocation[] = [];
+
+  let group: string | null = null;
+  let headings: string[] = [];
+
+  data.forEach(row => {
+    const [descriptor, ...values] = row;
+    if (descriptor === 'GROUP') {
+      group = values[0];
+      headings = [];
+    } else if (descriptor === 'HEADING') {
+      headings = values;
+    } else if (descriptor === 'DATA' && group === 'LOCA') {
+      const record: Record<string, string> = {};
+      headings.forEach((heading, index) => {
+        record[heading] = values[index];
+      });
+
+      const easting = parseOptionalNumber(record.LOCA_NATE);
+      const northing = parseOptionalNumber(record.LOCA_NATN);
+      if (easting === null || northing === null) return;
+
+      const [longitude, latitude] = bngToWgs84(easting, northing);
+      locations.push({
+        LOCA_ID: record.LOCA_ID,
+        LOCA_NATE: easting,
+        LOCA_NATN: northing,
+        LOCA_GL: parseOptionalNumber(record.LOCA_GL),
+        LOCA_FDEP: parseOptionalNumber(record.LOCA_FDEP),
+        latitude,
+        longitude,
+        sourceFile
+      });
+    }
+  });
+
+  return locations;
+};
+
+export const parseAgsFiles = async (files: File[]): Promise<AgsDataset> => {
+  const locations = (await Promise.all(
+    files.map(async file => parseAgsLocations(await file.text(), file.name))
+  )).flat();
+
+  if (locations.length === 0) {
+    throw new Error('No LOCA records with grid coordinates were found');
+  }
+
+  const name = files.length === 1 ? stripExtension(files[0].name) : `${files.length} AGS files`;
+  return { name, locations };
+};
@@ -0,0 +1,36 @@
+import { FINEST_RESOLUTION } from './hexData';
+import { HexColumns, hexagonsToColumns } from './hexColumns';
+import { BoreholeFilters, matchesFilters } from './boreholeAttributes';
+import { BoreholePointRecord } from './pointData';
+import { aggregateToResolution, processBoreholeData, HexagonData } from './processData';
+
+// Site-scale resolutions. National files this fine would be far too large, so they are binned
+// in the browser from the borehole points already loaded for the area in view.
+export const FINE_RESOLUTIONS = [8, 9, 10];
+const FINEST_FINE_RESOLUTION = FINE_RESOLUTIONS[FINE_RESOLUTIONS.length - 1];
+
+export const isFineResolution = (resolution: number) => resolution > FINEST_RESOLUTION;
+
+// Zooming between the fine resolutions reuses the finest binning of the same points
+let lastBinning: { points: BoreholePointRecord[]; filterKey: string; cells: HexagonData[] } | null = null;
+
+const binAtFinest = (points: BoreholePointRecord[], filters: BoreholeFilters): HexagonData[] => {
+  const filterKey = JSON.stringify(filters);
+  if (lastBinning?.points === points && lastBinning.filterKey === filterKey) {
+    return lastBinning.cells;
+  }
+
+  const matching = points.filter(point => matchesFilters(point.length, point.year, point.hasAGS, filters));
+  const cells = processBoreholeData(matching, FINEST_FINE_RESOLUTION);
+  lastBinning = { points, filterKey, cells };
+  return cells;
+};
+
+export const getFineHexData = (
+  points: BoreholePointRecord[],
+  resolution: number,
+  filters: BoreholeFilters
+): HexColumns => {
+  const finest = binAtFinest(points, filters);
+  return hexagonsToColumns(resolution < FINEST_FINE_RESOLUTION ? aggregateToResolution(finest, resolution) : finest);
+};
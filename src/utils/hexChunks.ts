@@ -0,0 +1,130 @@
+import { cellToParent, gridDisk, latLngToCell, polygonToCells } from 'h3-js';
+import { HexColumns, concatHexColumns } from './hexColumns';
+import { loadHexColumns } from './hexWorkerClient';
+import { createLruCache } from './lruCache';
+
+// [west, south, east, north] in degrees
+export type Bounds = [number, number, number, number];
+
+// Finer aggregates are exported in one file per parent cell at these resolutions. Resolutions 3 and 4
+// are small enough to stay as single national files, which also serve as the index of parent cells.
+export const HEX_CHUNK_RESOLUTIONS: Record<number, number> = {
+  5: 3,
+  6: 3,
+  7: 4
+};
+
+export const isChunkedResolution = (resolution: number) => resolution in HEX_CHUNK_RESOLUTIONS;
+
+// Row of each cell in a national file, for joining the aggregates onto cells covering an area
+export interface HexIndex {
+  columns: HexColumns;
+  rows: Map<string, number>;
+}
+
+const featureCache: Record<number, HexColumns> = {};
+const indexCache: Record<number, HexIndex> = {};
+
+export const getHexDataForResolution = async (resolution: number): Promise<HexColumns> => {
+  if (featureCache[resolution]) {
+    return featureCache[resolution];
+  }
+
+  let columns;
+  try {
+    columns = await loadHexColumns(`/boreholedensitymap/data/h3_scale_${resolution}.parquet`);
+  } catch (e) {
+    throw new Error(`Failed to load data for resolution ${resolution}`);
+  }
+
+  featureCache[resolution] = columns;
+  return columns;
+};
+
+export const getHexIndexForResolution = async (resolution: number): Promise<HexIndex> => {
+  if (!indexCache[resolution]) {
+    const columns = await getHexDataForResolution(resolution);
+    indexCache[resolution] = { columns, rows: new Map(columns.hex.map((hex, row) => [hex, row])) };
+  }
+  return indexCache[resolution];
+};
+
+// Enough chunks to cover a few screens of panning without holding a whole country of fine cells
+const MAX_CACHED_CHUNKS = 48;
+
+const chunkCache = createLruCache<HexColumns>(MAX_CACHED_CHUNKS);
+
+// Parent cells overlapping the viewport. Cells are picked by their centres, so add a ring
+// around them to catch chunks that straddle the edge, then drop any with no boreholes.
+export const getVisibleChunks = async ([west, south, east, north]: Bounds, chunkResolution: number): Promise<string[]> => {
+  const { rows } = await getHexIndexForResolution(chunkResolution);
+  const covering = polygonToCells(
+    [[west, south], [east, south], [east, north], [west, north], [west, south]],
+    chunkResolution,
+    true
+  );
+
+  const chunks = new Set<string>();
+  covering.forEach(cell => gridDisk(cell, 1).forEach(neighbour => chunks.add(neighbour)));
+
+  // A viewport smaller than a parent cell may not contain any cell centre
+  if (covering.length === 0) {
+    const centre = latLngToCell((south + north) / 2, (west + east) / 2, chunkResolution);
+    gridDisk(centre, 1).forEach(neighbour => chunks.add(neighbour));
+  }
+
+  return Array.from(chunks).filter(chunk => rows.has(chunk)).sort();
+};
+
+export const getHexChunk = async (resolution: number, chunk: string): Promise<HexColumns> => {
+  const key = `${resolution}/${chunk}`;
+  const cached = chunkCache.get(key);
+  if (cached) {
+    return cached;
+  }
+
+  let columns;
+  try {
+    columns = await loadHexColumns(`/boreholedensitymap/data/hex/${key}.parquet`);
+  } catch (e) {
+    throw new Error(`Failed to load resolution ${resolution} data for cell ${chunk}`);
+  }
+
+  chunkCache.set(key, columns);
+  return columns;
+};
+
+// Panning within the same chunks hands back the same columns, so the layer is not rebuilt. Two entries
+// let the view's load and a comparison's wider load sit side by side.
+const loadCache = createLruCache<HexColumns>(2);
+
+// Aggregates for the cells in view: whole national files at coarse resolutions, otherwise the chunks under the
+// viewport. Chunks under any extra cells, such as an uploaded dataset's, are loaded as well.
+export const getHexDataForBounds = async (resolution: number, bounds: Bounds, cells: string[] = []): Promise<HexColumns> => {
+  if (!isChunkedResolution(resolution)) {
+    return getHexDataForResolution(resolution);
+  }
+
+  const chunkResolution = HEX_CHUNK_RESOLUTIONS[resolution];
+  const [visible, { rows }] = await Promise.all([
+    getVisibleChunks(bounds, chunkResolution),
+    getHexIndexForResolution(chunkResolution)
+  ]);
+  const chunks = new Set(visible);
+  cells.forEach(cell => {
+    const chunk = cellToParent(cell, chunkResolution);
+    if (rows.has(chunk)) chunks.add(chunk);
+  });
+
+  const sorted = Array.from(chunks).sort();
+  const key = `${resolution}:${sorted.join(',')}`;
+  const cached = loadCache.get(key);
+  if (cached) {
+    return cached;
+  }
+
+  const loaded = await Promise.all(sorted.map(chunk => getHexChunk(resolution, chunk)));
+  const data = concatHexColumns(loaded);
+  loadCache.set(key, data);
+  return data;
+};
@@ -0,0 +1,128 @@
+import { cellArea } from 'h3-js';
+import type { HexCell } from './hexData';
+import type { HexagonData } from './processData';
+import type { BoreholeFilters, YearCounts, YearIndex } from './boreholeAttributes';
+import { Classification, ClassificationScheme, classify } from './classification';
+import { readParquetTable } from './parquet';
+
+// Hex aggregates as one typed array per metric, one entry per cell, so they can be handed back from the
+// worker without copying and drawn without building an object per cell. Missing values are NaN.
+export interface HexColumns {
+  hex: string[];
+  metrics: Record<string, Float64Array>;
+}
+
+// The metrics every hex layer carries; depth and comparison columns are added alongside them
+export const COUNT_METRICS = ['count', 'AGS_count', 'AGS_Percentage', 'area_km2', 'density'];
+
+export interface MetricStatisticsOptions {
+  scheme: ClassificationScheme;
+  classCount: number;
+  manualBreaks: number[];
+  max?: number;
+  classified: boolean;
+}
+
+// Largest absolute value, for scaling the diverging comparison colours, and the class breaks
+export interface MetricStatistics {
+  maxAbs: number;
+  classification: Classification | null;
+}
+
+export type HexWorkerRequest =
+  | { id: number; type: 'columns'; path: string }
+  | { id: number; type: 'statistics'; values: Float64Array; options: MetricStatisticsOptions }
+  | { id: number; type: 'recount'; resolution: number; filters: BoreholeFilters }
+  | { id: number; type: 'depth'; resolution: number; filters: BoreholeFilters; deeperThan: number }
+  | { id: number; type: 'yearIndex'; resolution: number; filters: BoreholeFilters }
+  | { id: number; type: 'yearCounts'; filters: BoreholeFilters };
+
+export type HexWorkerResponse =
+  | { id: number; result: HexColumns | MetricStatistics | YearIndex | YearCounts }
+  | { id: number; error: string };
+
+export const createHexColumns = (hex: string[], metrics: string[] = COUNT_METRICS): HexColumns => ({
+  hex,
+  metrics: Object.fromEntries(metrics.map(metric => [metric, new Float64Array(hex.length)]))
+});
+
+// Cells shrink towards the poles and between resolutions, so density is per km² of the actual cell
+export const setHexCounts = (
+  columns: HexColumns,
+  row: number,
+  count: number,
+  agsCount: number,
+  areaKm2 = cellArea(columns.hex[row], 'km2')
+) => {
+  const { metrics } = columns;
+  metrics.count[row] = count;
+  metrics.AGS_count[row] = agsCount;
+  metrics.AGS_Percentage[row] = count > 0 ? (agsCount / count) * 100 : 0;
+  metrics.area_km2[row] = areaKm2;
+  metrics.density[row] = count / areaKm2;
+};
+
+export const hexagonsToColumns = (hexagons: HexagonData[]): HexColumns => {
+  const columns = createHexColumns(hexagons.map(hexagon => hexagon.hexId));
+  hexagons.forEach((hexagon, row) => setHexCounts(columns, row, hexagon.count, hexagon.AGS_count));
+  return columns;
+};
+
+// Chunks loaded for the view share the same metrics
+export const concatHexColumns = (parts: HexColumns[]): HexColumns => {
+  const metrics = parts.length > 0 ? Object.keys(parts[0].metrics) : COUNT_METRICS;
+  const columns = createHexColumns(parts.flatMap(part => part.hex), metrics);
+  let offset = 0;
+  parts.forEach(part => {
+    Object.entries(part.metrics).forEach(([metric, values]) => columns.metrics[metric].set(values, offset));
+    offset += part.hex.length;
+  });
+  return columns;
+};
+
+// One cell as an object, with missing values as null, for tooltips and lookups
+export const getHexRow = (columns: HexColumns, row: number): HexCell => {
+  const cell: Record<string, string | number | null> = { hex: columns.hex[row] };
+  Object.entries(columns.metrics).forEach(([metric, values]) => {
+    cell[metric] = Number.isNaN(values[row]) ? null : values[row];
+  });
+  return cell as unknown as HexCell;
+};
+
+export const columnTransferables = (columns: HexColumns): ArrayBuffer[] =>
+  Object.values(columns.metrics).map(values => values.buffer as ArrayBuffer);
+
+// Parse a scale file and work out each cell's area and derived metrics
+export const readHexColumns = async (filePath: string): Promise<HexColumns> => {
+  const table = await readParquetTable(filePath);
+  const cells = table.getChild('cell');
+  const counts = table.getChild('count');
+  const agsCounts = table.getChild('AGS_count');
+
+  const columns = createHexColumns(Array.from({ length: table.numRows }, (_, i) => String(cells.get(i))));
+  for (let i = 0; i < table.numRows; i++) {
+    setHexCounts(columns, i, Number(counts.get(i)), Number(agsCounts?.get(i) ?? 0));
+  }
+  return columns;
+};
+
+// Loops rather than Math.max(...values), which overflows the call stack on the finer resolutions.
+// Missing values are passed as NaN and left out of both figures.
+export const computeMetricStatistics = (values: Float64Array, options: MetricStatisticsOptions): MetricStatistics => {
+  let maxAbs = 0;
+  const finite: number[] = [];
+  for (let i = 0; i < values.length; i++) {
+    if (Number.isNaN(values[i])) continue;
+    maxAbs = Math.max(maxAbs, Math.abs(values[i]));
+    finite.push(values[i]);
+  }
+
+  const classification = options.classified
+    ? classify(finite, options.scheme, {
+        classCount: options.classCount,
+        manualBreaks: options.manualBreaks,
+        max: options.max
+      })
+    : null;
+  return { maxAbs, classification };
+};
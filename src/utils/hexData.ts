@@ -0,0 +1,12 @@
+export interface HexCell {
+  hex: string;
+  count: number;
+  AGS_count: number;
+  AGS_Percentage: number;
+  area_km2: number;
+  density: number;
+}
+
+// Resolutions written by the preprocessing pipeline
+export const HEX_RESOLUTIONS = [3, 4, 5, 6, 7];
+export const FINEST_RESOLUTION = HEX_RESOLUTIONS[HEX_RESOLUTIONS.length - 1];
@@ -0,0 +1,126 @@
+import { cellToBoundary, cellToLatLng } from 'h3-js';
+import { Feature, FeatureCollection, MultiPolygon, Polygon } from 'geojson';
+import { HexColumns } from './hexColumns';
+import { Bounds } from './hexChunks';
+import { coverPolygon } from './siteSummary';
+
+export type HexExportFormat = 'csv' | 'geojson' | 'kml';
+
+export const HEX_EXPORT_FORMATS: { value: HexExportFormat; label: string }[] = [
+  { value: 'csv', label: 'CSV' },
+  { value: 'geojson', label: 'GeoJSON' },
+  { value: 'kml', label: 'KML' }
+];
+
+// Either the map extent or a polygon, named for the file and the dialog
+export type HexExportArea =
+  | { type: 'view'; bounds: Bounds }
+  | { type: 'polygon'; name: string; geometry: Polygon | MultiPolygon };
+
+type MetricValue = number | null;
+
+const FILE_TYPES: Record<HexExportFormat, { extension: string; mimeType: string }> = {
+  csv: { extension: 'csv', mimeType: 'text/csv' },
+  geojson: { extension: 'geojson', mimeType: 'application/geo+json' },
+  kml: { extension: 'kml', mimeType: 'application/vnd.google-earth.kml+xml' }
+};
+
+// Rows of the cells whose centre is in the area, matching how the site summaries count polygons
+export const selectHexesInArea = (columns: HexColumns, resolution: number, area: HexExportArea): number[] => {
+  const rows = columns.hex.map((_, row) => row);
+  if (area.type === 'polygon') {
+    const covered = new Set(coverPolygon(area.geometry, resolution));
+    return rows.filter(row => covered.has(columns.hex[row]));
+  }
+  const [west, south, east, north] = area.bounds;
+  return rows.filter(row => {
+    const [lat, lng] = cellToLatLng(columns.hex[row]);
+    return lng >= west && lng <= east && lat >= south && lat <= north;
+  });
+};
+
+const getMetricValue = (columns: HexColumns, column: string, row: number): MetricValue => {
+  const value = columns.metrics[column][row];
+  return Number.isFinite(value) ? value : null;
+};
+
+// Closed [lng, lat] ring
+const getBoundary = (hex: string) => cellToBoundary(hex, true);
+
+const csvField = (value: string) => /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+// Every metric loaded for the map, so depth and comparison metrics come out alongside the counts
+const toCsv = (data: HexColumns, rows: number[], resolution: number): string => {
+  const columns = Object.keys(data.metrics);
+  const header = ['h3_id', 'resolution', ...columns, 'boundary_wkt'];
+  const lines = rows.map(row => {
+    const ring = getBoundary(data.hex[row]).map(([lng, lat]) => `${lng} ${lat}`).join(', ');
+    return [
+      data.hex[row],
+      String(resolution),
+      ...columns.map(column => String(getMetricValue(data, column, row) ?? '')),
+      `POLYGON ((${ring}))`
+    ].map(csvField).join(',');
+  });
+  return [header.join(','), ...lines].join('\n');
+};
+
+const toGeoJson = (data: HexColumns, rows: number[], resolution: number): FeatureCollection<Polygon> => ({
+  type: 'FeatureCollection',
+  features: rows.map((row): Feature<Polygon> => ({
+    type: 'Feature',
+    geometry: { type: 'Polygon', coordinates: [getBoundary(data.hex[row])] },
+    properties: {
+      h3_id: data.hex[row],
+      resolution,
+      ...Object.fromEntries(Object.keys(data.metrics).map(column => [column, getMetricValue(data, column, row)]))
+    }
+  }))
+});
+
+const escapeXml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const toKml = (data: HexColumns, rows: number[], resolution: number, name: string): string => {
+  const columns = Object.keys(data.metrics);
+  const placemarks = rows.map(row => {
+    const values = columns.map(column => [column, String(getMetricValue(data, column, row) ?? '')]);
+    const extendedData = [['resolution', String(resolution)], ...values]
+      .map(([key, value]) => `<Data name="${escapeXml(key)}"><value>${escapeXml(value)}</value></Data>`)
+      .join('');
+    const coordinates = getBoundary(data.hex[row]).map(([lng, lat]) => `${lng},${lat},0`).join(' ');
+    return `<Placemark><name>${data.hex[row]}</name><ExtendedData>${extendedData}</ExtendedData>` +
+      `<Polygon><outerBoundaryIs><LinearRing><coordinates>${coordinates}</coordinates></LinearRing></outerBoundaryIs></Polygon></Placemark>`;
+  });
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2"><Document>',
+    `<name>${escapeXml(name)}</name>`,
+    ...placemarks,
+    '</Document></kml>'
+  ].join('\n');
+};
+
+const toFileName = (name: string) => name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'area';
+
+export const exportHexes = (
+  data: HexColumns,
+  resolution: number,
+  area: HexExportArea,
+  format: HexExportFormat
+): { blob: Blob; fileName: string } => {
+  const rows = selectHexesInArea(data, resolution, area);
+  const areaName = area.type === 'view' ? 'Current view' : area.name;
+  const { extension, mimeType } = FILE_TYPES[format];
+
+  const content = format === 'csv'
+    ? toCsv(data, rows, resolution)
+    : format === 'geojson'
+      ? JSON.stringify(toGeoJson(data, rows, resolution))
+      : toKml(data, rows, resolution, `Borehole hexes, ${areaName} (H3 resolution ${resolution})`);
+
+  return {
+    blob: new Blob([content], { type: mimeType }),
+    fileName: `borehole-hexes-r${resolution}-${toFileName(areaName)}.${extension}`
+  };
+};
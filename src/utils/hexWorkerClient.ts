@@ -0,0 +1,142 @@
+import {
+  HexColumns,
+  HexWorkerRequest,
+  HexWorkerResponse,
+  MetricStatistics,
+  MetricStatisticsOptions,
+  computeMetricStatistics,
+  readHexColumns
+} from './hexColumns';
+import {
+  BoreholeFilters,
+  YEAR_RANGE,
+  YearCounts,
+  YearIndex,
+  buildYearIndex,
+  countYears,
+  createYearStepper,
+  getBoreholeAttributes,
+  recountHexes
+} from './boreholeAttributes';
+import { recountDepthHexes } from './depthMetrics';
+
+// Omit over each member of the request union rather than their common keys
+type WithoutId<T> = T extends unknown ? Omit<T, 'id'> : never;
+
+type PendingRequest = { resolve: (result: unknown) => void; reject: (error: Error) => void };
+
+let worker: Worker | null = null;
+let workerFailed = false;
+let nextRequestId = 0;
+const pending = new Map<number, PendingRequest>();
+
+// Started on first use. Where workers are unavailable, or the worker fails to start, the same
+// work runs on the main thread instead.
+const getWorker = (): Worker | null => {
+  if (workerFailed || typeof Worker === 'undefined') return null;
+  if (!worker) {
+    worker = new Worker(new URL('../workers/hexData.worker.ts', import.meta.url));
+    worker.onmessage = (event: MessageEvent<HexWorkerResponse>) => {
+      const response = event.data;
+      const request = pending.get(response.id);
+      if (!request) return;
+      pending.delete(response.id);
+      if ('error' in response) {
+        request.reject(new Error(response.error));
+      } else {
+        request.resolve(response.result);
+      }
+    };
+    worker.onerror = event => {
+      console.error('Hex worker failed, falling back to the main thread:', event.message);
+      workerFailed = true;
+      worker?.terminate();
+      worker = null;
+      pending.forEach(request => request.reject(new Error('Hex worker failed')));
+      pending.clear();
+    };
+  }
+  return worker;
+};
+
+const sendRequest = <T>(
+  activeWorker: Worker,
+  request: WithoutId<HexWorkerRequest>,
+  transfer: Transferable[] = []
+): Promise<T> =>
+  new Promise<T>((resolve, reject) => {
+    const id = nextRequestId++;
+    pending.set(id, { resolve: resolve as (result: unknown) => void, reject });
+    activeWorker.postMessage({ ...request, id }, transfer);
+  });
+
+export const loadHexColumns = (path: string): Promise<HexColumns> => {
+  const activeWorker = getWorker();
+  return activeWorker ? sendRequest<HexColumns>(activeWorker, { type: 'columns', path }) : readHexColumns(path);
+};
+
+// The values array is handed over to the worker, so callers should not reuse it
+export const getMetricStatistics = (values: Float64Array, options: MetricStatisticsOptions): Promise<MetricStatistics> => {
+  const activeWorker = getWorker();
+  return activeWorker
+    ? sendRequest<MetricStatistics>(activeWorker, { type: 'statistics', values, options }, [values.buffer])
+    : Promise.resolve(computeMetricStatistics(values, options));
+};
+
+// Zooming back and forth asks for the same recounts again, so keep the last few
+const MAX_CACHED_RECOUNTS = 4;
+const recountCache = new Map<string, Promise<HexColumns>>();
+
+// Recount the hexes from individual boreholes so the layer reflects only the records that pass the filters
+export const getFilteredHexData = (resolution: number, filters: BoreholeFilters): Promise<HexColumns> => {
+  const key = `${resolution}:${JSON.stringify(filters)}`;
+  if (recountCache.has(key)) {
+    return recountCache.get(key);
+  }
+
+  const activeWorker = getWorker();
+  const recount = activeWorker
+    ? sendRequest<HexColumns>(activeWorker, { type: 'recount', resolution, filters })
+    : getBoreholeAttributes().then(attributes => recountHexes(attributes, resolution, filters));
+
+  recountCache.set(key, recount);
+  recount.catch(() => recountCache.delete(key));
+  if (recountCache.size > MAX_CACHED_RECOUNTS) {
+    recountCache.delete(recountCache.keys().next().value);
+  }
+  return recount;
+};
+
+export const getDepthHexData = (resolution: number, filters: BoreholeFilters, deeperThan: number): Promise<HexColumns> => {
+  const activeWorker = getWorker();
+  return activeWorker
+    ? sendRequest<HexColumns>(activeWorker, { type: 'depth', resolution, filters, deeperThan })
+    : getBoreholeAttributes().then(attributes => recountDepthHexes(attributes, resolution, filters, deeperThan));
+};
+
+export const getCumulativeCounts = (filters: BoreholeFilters): Promise<YearCounts> => {
+  const activeWorker = getWorker();
+  return activeWorker
+    ? sendRequest<YearCounts>(activeWorker, { type: 'yearCounts', filters })
+    : getBoreholeAttributes().then(attributes => countYears(attributes, filters));
+};
+
+let timelineStepper: { key: string; step: Promise<(year: number) => HexColumns> } | null = null;
+
+// Hex counts for the timeline year. The index is built once per resolution and filter set in the worker,
+// so playing or scrubbing the timeline only touches the boreholes between the old and new year.
+export const getTimelineHexData = async (resolution: number, filters: BoreholeFilters, year: number): Promise<HexColumns> => {
+  const key = `${resolution}:${JSON.stringify({ ...filters, maxYear: YEAR_RANGE[1] })}`;
+  if (timelineStepper?.key !== key) {
+    const activeWorker = getWorker();
+    const index = activeWorker
+      ? sendRequest<YearIndex>(activeWorker, { type: 'yearIndex', resolution, filters })
+      : getBoreholeAttributes().then(attributes => buildYearIndex(attributes, resolution, filters));
+    timelineStepper = { key, step: index.then(createYearStepper) };
+    timelineStepper.step.catch(() => {
+      timelineStepper = null;
+    });
+  }
+  const step = await timelineStepper.step;
+  return step(Math.min(year, filters.maxYear));
+};
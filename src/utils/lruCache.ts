@@ -0,0 +1,28 @@
+export interface LruCache<V> {
+  get: (key: string) => V | undefined;
+  set: (key: string, value: V) => void;
+  size: () => number;
+}
+
+// A Map keeps insertion order, so re-inserting on every read leaves the least recently used entry first
+export const createLruCache = <V>(maxEntries: number): LruCache<V> => {
+  const entries = new Map<string, V>();
+
+  return {
+    get: key => {
+      if (!entries.has(key)) return undefined;
+      const value = entries.get(key) as V;
+      entries.delete(key);
+      entries.set(key, value);
+      return value;
+    },
+    set: (key, value) => {
+      entries.delete(key);
+      entries.set(key, value);
+      while (entries.size > maxEntries) {
+        entries.delete(entries.keys().next().value as string);
+      }
+    },
+    size: () => entries.size
+  };
+};
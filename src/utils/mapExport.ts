@@ -0,0 +1,292 @@
+import { Deck, Layer, MapViewState } from '@deck.gl/core';
+import { Classification, formatBreak, isContinuousScheme } from './classification';
+import { ColorScale, colorToCss, interpolateColor } from './palettes';
+import { calculateScaleBarDistance } from './scaleBar';
+import { ATTRIBUTIONS } from './attribution';
+import { jpegToPdf } from './pdf';
+
+export type PaperSize = 'A4' | 'A3' | 'Letter';
+export type Orientation = 'landscape' | 'portrait';
+export type ExportFormat = 'png' | 'pdf';
+
+// Portrait dimensions in millimetres
+export const PAPER_SIZES: Record<PaperSize, { label: string; width: number; height: number }> = {
+  A4: { label: 'A4', width: 210, height: 297 },
+  A3: { label: 'A3', width: 297, height: 420 },
+  Letter: { label: 'US Letter', width: 215.9, height: 279.4 }
+};
+
+export const EXPORT_DPIS = [96, 150, 300];
+
+export interface MapExportOptions {
+  title: string;
+  paper: PaperSize;
+  orientation: Orientation;
+  dpi: number;
+  format: ExportFormat;
+}
+
+// What the on-screen legend shows, redrawn onto the page
+export interface MapExportLegend {
+  title: string;
+  colorScale: ColorScale;
+  classification: Classification | null;
+  unit: string;
+  // Fixed labels under the ramp for the comparison metrics, which have no class breaks
+  labels?: string[];
+}
+
+// CSS pixels are 1/96 inch; the layout is worked out in them and scaled up to the chosen DPI
+const CSS_DPI = 96;
+const MM_PER_INCH = 25.4;
+const POINTS_PER_INCH = 72;
+const mmToCss = (mm: number) => (mm / MM_PER_INCH) * CSS_DPI;
+
+const MARGIN_MM = 10;
+const TITLE_HEIGHT = 40;
+const FOOTER_HEIGHT = 24;
+const LEGEND_WIDTH = 200;
+const FONT = 'system-ui, -apple-system, "Segoe UI", sans-serif';
+
+// Larger WebGL drawing buffers fail on many GPUs, so very large exports render the map at a
+// lower pixel density than the rest of the page
+const MAX_MAP_PIXELS = 8192;
+const LOAD_TIMEOUT_MS = 30000;
+
+const getPageSize = ({ paper, orientation }: MapExportOptions) => {
+  const { width, height } = PAPER_SIZES[paper];
+  return orientation === 'landscape' ? { width: height, height: width } : { width, height };
+};
+
+// Render the layers into a hidden deck of the requested size and wait for the basemap tiles. Call
+// finalize once the canvas has been copied, to release its WebGL context
+export const renderMapCanvas = (
+  layers: Layer[],
+  viewState: MapViewState,
+  width: number,
+  height: number,
+  pixelRatio: number
+): Promise<{ canvas: HTMLCanvasElement; finalize: () => void }> =>
+  new Promise((resolve, reject) => {
+    const container = document.createElement('div');
+    Object.assign(container.style, {
+      position: 'fixed',
+      left: '-100000px',
+      top: '0',
+      width: `${width}px`,
+      height: `${height}px`
+    });
+    document.body.appendChild(container);
+
+    const exportLayers = layers.map(layer => layer.clone({}));
+    const started = Date.now();
+    let deck: Deck | null = null;
+    let poll: ReturnType<typeof setInterval> | null = null;
+
+    const finalize = () => {
+      if (poll) clearInterval(poll);
+      deck?.finalize();
+      container.remove();
+    };
+
+    try {
+      deck = new Deck({
+        parent: container,
+        width,
+        height,
+        viewState,
+        controller: false,
+        layers: exportLayers,
+        useDevicePixels: pixelRatio,
+        onError: error => console.error('Error rendering export:', error)
+      });
+    } catch (error) {
+      finalize();
+      reject(error);
+      return;
+    }
+
+    poll = setInterval(() => {
+      const loaded = deck.isInitialized && exportLayers.every(layer => !layer.props.visible || layer.isLoaded);
+      if (!loaded && Date.now() - started < LOAD_TIMEOUT_MS) return;
+      clearInterval(poll);
+      poll = null;
+      if (!loaded) console.warn('Exporting before every map layer finished loading');
+      deck.redraw('export');
+      resolve({ canvas: deck.getCanvas(), finalize });
+    }, 100);
+  });
+
+const drawNorthArrow = (ctx: CanvasRenderingContext2D, x: number, y: number, bearing: number) => {
+  ctx.save();
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.9)';
+  ctx.beginPath();
+  ctx.arc(x, y, 18, 0, Math.PI * 2);
+  ctx.fill();
+  ctx.translate(x, y);
+  ctx.rotate((-bearing * Math.PI) / 180);
+  ctx.fillStyle = '#1f2937';
+  ctx.beginPath();
+  ctx.moveTo(0, -13);
+  ctx.lineTo(6, 6);
+  ctx.lineTo(0, 2);
+  ctx.lineTo(-6, 6);
+  ctx.closePath();
+  ctx.fill();
+  ctx.font = `600 9px ${FONT}`;
+  ctx.textAlign = 'center';
+  ctx.fillText('N', 0, 15);
+  ctx.restore();
+};
+
+const drawScaleBar = (ctx: CanvasRenderingContext2D, x: number, y: number, latitude: number, zoom: number) => {
+  const scale = calculateScaleBarDistance(latitude, zoom);
+  ctx.save();
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.9)';
+  ctx.fillRect(x, y - 30, scale.width + 16, 30);
+  ctx.fillStyle = '#1f2937';
+  ctx.fillRect(x + 8, y - 22, scale.width, 5);
+  ctx.font = `10px ${FONT}`;
+  ctx.textAlign = 'center';
+  ctx.fillText(`${scale.distance} ${scale.unit}`, x + 8 + scale.width / 2, y - 6);
+  ctx.restore();
+};
+
+// Mirrors LegendScale: a gradient with evenly spaced ticks, or one swatch per class
+const drawLegend = (ctx: CanvasRenderingContext2D, right: number, bottom: number, legend: MapExportLegend) => {
+  const { classification, colorScale } = legend;
+  const padding = 10;
+  const innerWidth = LEGEND_WIDTH - padding * 2;
+  const classed = classification && !legend.labels && !isContinuousScheme(classification.scheme);
+  const classCount = classed ? classification.breaks.length - 1 : 0;
+  const bodyHeight = classed ? classCount * 16 : 44;
+  const height = padding * 2 + 18 + bodyHeight;
+  const x = right - LEGEND_WIDTH;
+  const y = bottom - height;
+
+  ctx.save();
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.95)';
+  ctx.fillRect(x, y, LEGEND_WIDTH, height);
+  ctx.strokeStyle = '#d1d5db';
+  ctx.strokeRect(x, y, LEGEND_WIDTH, height);
+
+  ctx.fillStyle = '#111827';
+  ctx.font = `600 12px ${FONT}`;
+  ctx.textBaseline = 'top';
+  ctx.fillText(legend.title, x + padding, y + padding, innerWidth);
+
+  const top = y + padding + 18;
+  ctx.font = `10px ${FONT}`;
+  if (classed) {
+    for (let i = 0; i < classCount; i++) {
+      ctx.fillStyle = colorToCss(interpolateColor(classCount > 1 ? i / (classCount - 1) : 1, colorScale));
+      ctx.fillRect(x + padding, top + i * 16, 20, 11);
+      ctx.fillStyle = '#374151';
+      const range = `${formatBreak(classification.breaks[i])} – ${formatBreak(classification.breaks[i + 1])} ${legend.unit}`;
+      ctx.fillText(range, x + padding + 28, top + i * 16, innerWidth - 28);
+    }
+  } else {
+    const gradient = ctx.createLinearGradient(x + padding, 0, x + padding + innerWidth, 0);
+    colorScale.forEach(([stop, color]) => gradient.addColorStop(stop, colorToCss(color)));
+    ctx.fillStyle = gradient;
+    ctx.fillRect(x + padding, top, innerWidth, 14);
+
+    const labels = legend.labels || classification?.breaks.map(formatBreak) || [];
+    ctx.fillStyle = '#4b5563';
+    labels.forEach((label, i) => {
+      ctx.textAlign = i === 0 ? 'left' : i === labels.length - 1 ? 'right' : 'center';
+      ctx.fillText(label, x + padding + (labels.length > 1 ? (i * innerWidth) / (labels.length - 1) : 0), top + 18);
+    });
+    if (legend.unit && !legend.labels) {
+      ctx.textAlign = 'right';
+      ctx.fillText(legend.unit, x + padding + innerWidth, top + 31);
+    }
+  }
+  ctx.restore();
+};
+
+const canvasToBlob = (canvas: HTMLCanvasElement, type: string, quality?: number) =>
+  new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('The browser could not encode the export'))), type, quality);
+  });
+
+// Lay out a printable page: title, the map filling the frame, then legend, scale bar, north arrow and attribution
+export const exportMap = async ({
+  layers,
+  viewState,
+  visibleWidth,
+  visibleHeight,
+  legend,
+  options
+}: {
+  layers: Layer[];
+  // Centred on the part of the map the user can see, i.e. not behind the sidebar
+  viewState: MapViewState;
+  visibleWidth: number;
+  visibleHeight: number;
+  legend: MapExportLegend | null;
+  options: MapExportOptions;
+}): Promise<Blob> => {
+  const page = getPageSize(options);
+  const pageWidth = mmToCss(page.width);
+  const pageHeight = mmToCss(page.height);
+  const pixelRatio = options.dpi / CSS_DPI;
+  const margin = mmToCss(MARGIN_MM);
+
+  const frame = {
+    x: margin,
+    y: margin + TITLE_HEIGHT,
+    width: pageWidth - margin * 2,
+    height: pageHeight - margin * 2 - TITLE_HEIGHT - FOOTER_HEIGHT
+  };
+
+  // Zoom so the whole of what was on screen fits in the frame, whatever the paper's shape
+  const fit = Math.min(frame.width / visibleWidth, frame.height / visibleHeight);
+  const exportView = { ...viewState, zoom: viewState.zoom + Math.log2(fit) };
+  const mapRatio = Math.min(pixelRatio, MAX_MAP_PIXELS / frame.width, MAX_MAP_PIXELS / frame.height);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(pageWidth * pixelRatio);
+  canvas.height = Math.round(pageHeight * pixelRatio);
+  const ctx = canvas.getContext('2d');
+  ctx.scale(pixelRatio, pixelRatio);
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, pageWidth, pageHeight);
+
+  const map = await renderMapCanvas(layers, exportView, Math.round(frame.width), Math.round(frame.height), mapRatio);
+  try {
+    ctx.drawImage(map.canvas, frame.x, frame.y, frame.width, frame.height);
+  } finally {
+    map.finalize();
+  }
+
+  ctx.strokeStyle = '#9ca3af';
+  ctx.lineWidth = 1;
+  ctx.strokeRect(frame.x, frame.y, frame.width, frame.height);
+
+  ctx.fillStyle = '#111827';
+  ctx.font = `600 20px ${FONT}`;
+  ctx.textBaseline = 'middle';
+  ctx.fillText(options.title, margin, margin + TITLE_HEIGHT / 2 - 4, frame.width * 0.75);
+  ctx.fillStyle = '#6b7280';
+  ctx.font = `11px ${FONT}`;
+  ctx.textAlign = 'right';
+  ctx.fillText(new Date().toLocaleDateString('en-GB', { day: 'numeric', month: 'long', year: 'numeric' }), margin + frame.width, margin + TITLE_HEIGHT / 2 - 4);
+  ctx.textAlign = 'left';
+
+  drawNorthArrow(ctx, frame.x + frame.width - 28, frame.y + 28, exportView.bearing || 0);
+  drawScaleBar(ctx, frame.x + 10, frame.y + frame.height - 10, exportView.latitude, exportView.zoom);
+  if (legend) drawLegend(ctx, frame.x + frame.width - 10, frame.y + frame.height - 10, legend);
+
+  ctx.fillStyle = '#6b7280';
+  ctx.font = `9px ${FONT}`;
+  ctx.textBaseline = 'middle';
+  ctx.fillText(ATTRIBUTIONS.join(' · '), margin, pageHeight - margin - FOOTER_HEIGHT / 2 + 4, frame.width);
+
+  if (options.format === 'png') {
+    return canvasToBlob(canvas, 'image/png');
+  }
+  const jpeg = new Uint8Array(await (await canvasToBlob(canvas, 'image/jpeg', 0.92)).arrayBuffer());
+  const toPoints = (mm: number) => (mm / MM_PER_INCH) * POINTS_PER_INCH;
+  return jpegToPdf(jpeg, canvas.width, canvas.height, toPoints(page.width), toPoints(page.height));
+};
@@ -0,0 +1,107 @@
+import { Color } from '@deck.gl/core';
+
+export type ColorScale = Array<[number, number[]]>;
+
+export type PaletteType = 'sequential' | 'diverging';
+
+export type CvdType = 'none' | 'protanopia' | 'deuteranopia' | 'tritanopia';
+
+export interface Palette {
+  id: string;
+  label: string;
+  type: PaletteType;
+  colors: string[];
+}
+
+// Every colour ramp on the map and in the legends comes from these settings
+export interface PaletteSettings {
+  sequential: string;
+  diverging: string;
+  reversed: boolean;
+  opacity: number;
+  cvd: CvdType;
+}
+
+export const PALETTES: Palette[] = [
+  { id: 'teal-red', label: 'Teal to red', type: 'sequential', colors: ['#41B6C4', '#7FCDBB', '#C7E9B4', '#FCAE91', '#D7191C'] },
+  { id: 'viridis', label: 'Viridis', type: 'sequential', colors: ['#440154', '#3B528B', '#21918C', '#5EC962', '#FDE725'] },
+  { id: 'cividis', label: 'Cividis', type: 'sequential', colors: ['#00224E', '#35456C', '#666970', '#948E77', '#C8B866', '#FEE838'] },
+  { id: 'ylorrd', label: 'Yellow-orange-red (ColorBrewer)', type: 'sequential', colors: ['#FFFFB2', '#FECC5C', '#FD8D3C', '#F03B20', '#BD0026'] },
+  { id: 'ylgnbu', label: 'Yellow-green-blue (ColorBrewer)', type: 'sequential', colors: ['#FFFFCC', '#A1DAB4', '#41B6C4', '#2C7FB8', '#253494'] },
+  { id: 'ylorbr', label: 'Yellow-orange-brown (ColorBrewer)', type: 'sequential', colors: ['#FFF7BC', '#FEC44F', '#FE9929', '#D95F0E', '#993404'] },
+  { id: 'blues', label: 'Blues (ColorBrewer)', type: 'sequential', colors: ['#EFF3FF', '#BDD7E7', '#6BAED6', '#3182BD', '#08519C'] },
+  { id: 'teal-purple', label: 'Teal to purple', type: 'diverging', colors: ['#018571', '#80CDC1', '#F0F0F0', '#B2ABD2', '#542788'] },
+  { id: 'brbg', label: 'Brown-blue-green (ColorBrewer)', type: 'diverging', colors: ['#A6611A', '#DFC27D', '#F5F5F5', '#80CDC1', '#018571'] },
+  { id: 'puor', label: 'Purple-orange (ColorBrewer)', type: 'diverging', colors: ['#E66101', '#FDB863', '#F7F7F7', '#B2ABD2', '#5E3C99'] },
+  { id: 'rdbu', label: 'Red-blue (ColorBrewer)', type: 'diverging', colors: ['#CA0020', '#F4A582', '#F7F7F7', '#92C5DE', '#0571B0'] }
+];
+
+export const CVD_TYPES: { value: CvdType; label: string }[] = [
+  { value: 'none', label: 'Normal vision' },
+  { value: 'protanopia', label: 'Protanopia' },
+  { value: 'deuteranopia', label: 'Deuteranopia' },
+  { value: 'tritanopia', label: 'Tritanopia' }
+];
+
+export const DEFAULT_PALETTE_SETTINGS: PaletteSettings = {
+  sequential: 'teal-red',
+  diverging: 'teal-purple',
+  reversed: false,
+  opacity: 0.7,
+  cvd: 'none'
+};
+
+export const getPalette = (id: string) => PALETTES.find(palette => palette.id === id) || PALETTES[0];
+
+// Machado, Oliveira & Fernandes (2009) simulation matrices at full severity, applied in linear RGB
+const CVD_MATRICES: Record<Exclude<CvdType, 'none'>, number[][]> = {
+  protanopia: [[0.152286, 1.052583, -0.204868], [0.114503, 0.786281, 0.099216], [-0.003882, -0.048116, 1.051998]],
+  deuteranopia: [[0.367322, 0.860646, -0.227968], [0.280085, 0.672501, 0.047413], [-0.01182, 0.04294, 0.968881]],
+  tritanopia: [[1.255528, -0.076749, -0.178779], [-0.078411, 0.930809, 0.147602], [0.004733, 0.691367, 0.3039]]
+};
+
+const toLinear = (channel: number) => {
+  const c = channel / 255;
+  return c <= 0.04045 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4;
+};
+
+const fromLinear = (value: number) => {
+  const c = Math.max(0, Math.min(1, value));
+  return Math.round(255 * (c <= 0.0031308 ? c * 12.92 : 1.055 * c ** (1 / 2.4) - 0.055));
+};
+
+export const simulateCvd = (rgb: number[], cvd: CvdType): number[] => {
+  if (cvd === 'none') return rgb;
+  const linear = rgb.slice(0, 3).map(toLinear);
+  const simulated = CVD_MATRICES[cvd].map(row => fromLinear(row[0] * linear[0] + row[1] * linear[1] + row[2] * linear[2]));
+  return [...simulated, ...rgb.slice(3)];
+};
+
+const hexToRgb = (hex: string) => [1, 3, 5].map(i => parseInt(hex.slice(i, i + 2), 16));
+
+// Evenly spaced stops with the chosen direction, opacity and vision simulation applied
+export const buildColorScale = (palette: Palette, { reversed, opacity, cvd }: Omit<PaletteSettings, 'sequential' | 'diverging'>): ColorScale => {
+  const colors = reversed ? [...palette.colors].reverse() : palette.colors;
+  const alpha = Math.round(opacity * 255);
+  return colors.map((hex, i) => [i / (colors.length - 1), [...simulateCvd(hexToRgb(hex), cvd), alpha]]);
+};
+
+export const interpolateColor = (value: number, colorScale: ColorScale): Color => {
+  for (let i = 1; i < colorScale.length; i++) {
+    const [prevStop, prevColor] = colorScale[i - 1];
+    const [nextStop, nextColor] = colorScale[i];
+    if (value <= nextStop) {
+      const fraction = (value - prevStop) / (nextStop - prevStop);
+      return prevColor.map((channel, index) =>
+        Math.round(channel * (1 - fraction) + nextColor[index] * fraction)
+      ) as [number, number, number, number];
+    }
+  }
+  return colorScale[colorScale.length - 1][1] as [number, number, number, number];
+};
+
+export const colorToCss = (color: ArrayLike<number>) =>
+  `rgba(${color[0]}, ${color[1]}, ${color[2]}, ${(color[3] ?? 255) / 255})`;
+
+export const gradientCss = (colorScale: ColorScale) =>
+  `linear-gradient(to right, ${colorScale.map(([stop, color]) => `${colorToCss(color)} ${stop * 100}%`).join(', ')})`;
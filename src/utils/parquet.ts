@@ -0,0 +1,25 @@
+import initParquet, { readParquet } from 'parquet-wasm';
+import { tableFromIPC } from 'apache-arrow';
+
+let parquetReady: Promise<unknown> | null = null;
+
+// parquet-wasm has to fetch and instantiate its WebAssembly module once before any reads
+const ensureParquet = () => {
+  if (!parquetReady) {
+    parquetReady = initParquet();
+  }
+  return parquetReady;
+};
+
+export const readParquetTable = async (filePath: string) => {
+  await ensureParquet();
+
+  const response = await fetch(filePath);
+  if (!response.ok) {
+    throw new Error(`Failed to load ${filePath}`);
+  }
+
+  const buffer = new Uint8Array(await response.arrayBuffer());
+  const wasmTable = readParquet(buffer);
+  return tableFromIPC(wasmTable.intoIPCStream());
+};
@@ -0,0 +1,45 @@
+// A single-page PDF holding one JPEG image that fills the page. Map exports are already
+// rasterised with their legend and text, so this is all the PDF structure they need.
+export const jpegToPdf = (jpeg: Uint8Array<ArrayBuffer>, imageWidth: number, imageHeight: number, pageWidthPt: number, pageHeightPt: number): Blob => {
+  const encoder = new TextEncoder();
+  const parts: Uint8Array<ArrayBuffer>[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+
+  const write = (part: string | Uint8Array<ArrayBuffer>) => {
+    const bytes = typeof part === 'string' ? encoder.encode(part) : part;
+    parts.push(bytes);
+    length += bytes.length;
+  };
+  const startObject = (id: number) => {
+    offsets[id] = length;
+    write(`${id} 0 obj\n`);
+  };
+
+  const width = pageWidthPt.toFixed(2);
+  const height = pageHeightPt.toFixed(2);
+  const content = `q ${width} 0 0 ${height} 0 0 cm /Im0 Do Q`;
+
+  write('%PDF-1.4\n');
+  startObject(1);
+  write('<< /Type /Catalog /Pages 2 0 R >>\nendobj\n');
+  startObject(2);
+  write('<< /Type /Pages /Kids [3 0 R] /Count 1 >>\nendobj\n');
+  startObject(3);
+  write(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${width} ${height}] /Resources << /XObject << /Im0 4 0 R >> >> /Contents 5 0 R >>\nendobj\n`);
+  startObject(4);
+  write(`<< /Type /XObject /Subtype /Image /Width ${imageWidth} /Height ${imageHeight} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${jpeg.length} >>\nstream\n`);
+  write(jpeg);
+  write('\nendstream\nendobj\n');
+  startObject(5);
+  write(`<< /Length ${content.length} >>\nstream\n${content}\nendstream\nendobj\n`);
+
+  const xrefOffset = length;
+  write('xref\n0 6\n0000000000 65535 f \n');
+  for (let id = 1; id <= 5; id++) {
+    write(`${String(offsets[id]).padStart(10, '0')} 00000 n \n`);
+  }
+  write(`trailer\n<< /Size 6 /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+  return new Blob(parts, { type: 'application/pdf' });
+};
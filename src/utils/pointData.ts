@@ -0,0 +1,95 @@
+import { readParquetTable } from './parquet';
+import { Bounds, getVisibleChunks } from './hexChunks';
+import { createLruCache } from './lruCache';
+
+// One SOBI borehole; attributes BGS does not hold are null
+export interface BoreholePointRecord {
+  latitude: number;
+  longitude: number;
+  hasAGS: boolean;
+  bgsId: number | null;
+  reference: string | null;
+  name: string | null;
+  gridReference: string | null;
+  length: number | null;
+  year: number | null;
+  agsUrl: string | null;
+}
+
+// Borehole points are exported in one file per parent cell at this resolution
+export const POINT_CHUNK_RESOLUTION = 5;
+
+// Resolution 10, the finest hexes, starts at zoom 12.5 in getResolutionForZoom. Give it a zoom level of
+// its own, then show the points instead.
+export const POINT_ZOOM_THRESHOLD = 13.5;
+
+// The widest view that loads points (zoom 10.5, where the fine hexes start) needs about 25 chunks on a
+// 1080p screen and 40 on a 1440p one, counting the ring added at the edges. Keep all of those plus
+// room to pan, so a settled pan never evicts chunks the same view still needs.
+const MAX_CACHED_CHUNKS = 64;
+
+const chunkCache = createLruCache<BoreholePointRecord[]>(MAX_CACHED_CHUNKS);
+
+const BGS_SCAN_VIEWER_URL = 'https://scans.bgs.ac.uk/sobi_scans/boreholes';
+
+export const getScanViewerUrl = (bgsId: number) => `${BGS_SCAN_VIEWER_URL}/${bgsId}`;
+
+const readText = (column: any, i: number): string | null => {
+  const value = column?.get(i);
+  return value === null || value === undefined ? null : String(value);
+};
+
+const readNumber = (column: any, i: number): number | null => {
+  const value = column?.get(i);
+  return value === null || value === undefined ? null : Number(value);
+};
+
+export const getPointChunk = async (chunk: string): Promise<BoreholePointRecord[]> => {
+  const cached = chunkCache.get(chunk);
+  if (cached) {
+    return cached;
+  }
+
+  let table;
+  try {
+    table = await readParquetTable(`/boreholedensitymap/data/points/${chunk}.parquet`);
+  } catch (e) {
+    throw new Error(`Failed to load borehole points for cell ${chunk}`);
+  }
+
+  const lats = table.getChild('lat');
+  const lons = table.getChild('lon');
+  const bgsIds = table.getChild('bgs_id');
+  const references = table.getChild('reference');
+  const names = table.getChild('name');
+  const gridReferences = table.getChild('grid_ref');
+  const lengths = table.getChild('length');
+  const years = table.getChild('year');
+  const agsUrls = table.getChild('ags_url');
+
+  const points: BoreholePointRecord[] = new Array(table.numRows);
+  for (let i = 0; i < table.numRows; i++) {
+    const agsUrl = readText(agsUrls, i);
+    points[i] = {
+      latitude: Number(lats.get(i)),
+      longitude: Number(lons.get(i)),
+      hasAGS: agsUrl !== null,
+      bgsId: readNumber(bgsIds, i),
+      reference: readText(references, i),
+      name: readText(names, i),
+      gridReference: readText(gridReferences, i),
+      length: readNumber(lengths, i),
+      year: readNumber(years, i),
+      agsUrl
+    };
+  }
+
+  chunkCache.set(chunk, points);
+  return points;
+};
+
+export const getPointsForBounds = async (bounds: Bounds): Promise<BoreholePointRecord[]> => {
+  const chunks = await getVisibleChunks(bounds, POINT_CHUNK_RESOLUTION);
+  const loaded = await Promise.all(chunks.map(getPointChunk));
+  return loaded.flat();
+};
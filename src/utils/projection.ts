@@ -0,0 +1,45 @@
+import proj4 from 'proj4';
+import { FeatureCollection, Geometry } from 'geojson';
+
+// OSGB 1936 / British National Grid, shifted to WGS84 with the standard seven-parameter Helmert transform
+export const BNG = 'EPSG:27700';
+export const WGS84 = 'EPSG:4326';
+
+proj4.defs(
+  BNG,
+  '+proj=tmerc +lat_0=49 +lon_0=-2 +k=0.9996012717 +x_0=400000 +y_0=-100000 +ellps=airy ' +
+  '+towgs84=446.448,-125.157,542.06,0.15,0.247,0.842,-20.489 +units=m +no_defs'
+);
+
+// Convert an easting/northing pair to [longitude, latitude]
+export const bngToWgs84 = (easting: number, northing: number): [number, number] => {
+  const [lon, lat] = proj4(BNG, WGS84, [easting, northing]);
+  return [lon, lat];
+};
+
+const reprojectCoordinates = (coordinates: any, converter: proj4.Converter): any => {
+  if (typeof coordinates[0] === 'number') {
+    return converter.forward(coordinates);
+  }
+  return coordinates.map(child => reprojectCoordinates(child, converter));
+};
+
+const reprojectGeometry = (geometry: Geometry | null, converter: proj4.Converter): Geometry | null => {
+  if (!geometry) return geometry;
+  if (geometry.type === 'GeometryCollection') {
+    return { ...geometry, geometries: geometry.geometries.map(g => reprojectGeometry(g, converter)) };
+  }
+  return { ...geometry, coordinates: reprojectCoordinates(geometry.coordinates, converter) } as Geometry;
+};
+
+// Reproject every geometry in a collection from the given projection (a proj4 string, WKT or EPSG code) to WGS84
+export const reprojectFeatureCollection = (collection: FeatureCollection, fromProjection: string): FeatureCollection => {
+  const converter = proj4(fromProjection, WGS84);
+  return {
+    ...collection,
+    features: collection.features.map(feature => ({
+      ...feature,
+      geometry: reprojectGeometry(feature.geometry, converter)
+    }))
+  };
+};
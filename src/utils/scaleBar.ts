@@ -0,0 +1,41 @@
+// Helper function to calculate the scale bar length based on latitude and zoom
+export const calculateScaleBarDistance = (latitude: number, zoom: number): { width: number; distance: number; unit: string } => {
+  // Earth's circumference at the equator in meters
+  const earthCircumference = 40075016.686;
+  
+  // Adjust for latitude (the length of a degree of longitude decreases with increasing latitude)
+  const metersPerPixel = (earthCircumference * Math.cos(latitude * Math.PI / 180)) / (256 * Math.pow(2, zoom));
+  
+  // Target scale bar width in pixels (adjust as needed)
+  const targetWidth = 100;
+  
+  // Calculate distance represented by the target width
+  let distance = targetWidth * metersPerPixel;
+  let unit = 'm';
+  
+  // Round to a nice number and adjust unit if needed
+  if (distance >= 1000) {
+    distance = distance / 1000;
+    unit = 'km';
+  }
+  
+  // Round to a nice number (1, 2, 5, 10, 20, 50, 100, etc.)
+  const magnitudes = [1, 2, 5];
+  const scale = Math.pow(10, Math.floor(Math.log10(distance)));
+  let bestDistance = magnitudes[0] * scale;
+  
+  for (const mag of magnitudes) {
+    if (Math.abs(distance - mag * scale) < Math.abs(distance - bestDistance)) {
+      bestDistance = mag * scale;
+    }
+  }
+  
+  // Calculate the width in pixels for this nice distance
+  const width = bestDistance * (unit === 'km' ? 1000 : 1) / metersPerPixel;
+  
+  return {
+    width,
+    distance: bestDistance,
+    unit
+  };
+};
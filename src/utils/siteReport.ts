@@ -0,0 +1,390 @@
+import { Layer, WebMercatorViewport } from '@deck.gl/core';
+import { GeoJsonLayer, PathLayer, ScatterplotLayer } from '@deck.gl/layers';
+import { H3HexagonLayer } from '@deck.gl/geo-layers';
+import { MultiPolygon, Polygon, Position } from 'geojson';
+import { BoreholePointRecord, getPointsForBounds } from './pointData';
+import { processBoreholeData, HexagonData } from './processData';
+import { Bounds } from './hexChunks';
+import { createBasemapLayer } from './basemap';
+import { renderMapCanvas } from './mapExport';
+import { ColorScale, gradientCss, interpolateColor } from './palettes';
+import { ATTRIBUTIONS } from './attribution';
+import { DataMetadata, getDataMetadata } from './dataMetadata';
+
+// Buffer distances in metres, each measured outwards from the site boundary
+export const REPORT_BUFFERS = [250, 500, 1000];
+
+export interface SiteReportRow {
+  label: string;
+  areaKm2: number;
+  count: number;
+  AGS_count: number;
+  AGS_Percentage: number;
+  density: number;
+}
+
+// Resolution 9 cells are about 170 m across, fine enough to show where boreholes cluster within a 1 km buffer
+const SITE_MAP_RESOLUTION = 9;
+const MAP_WIDTH = 680;
+const MAP_HEIGHT = 420;
+const MAP_PIXEL_RATIO = 2;
+const EARTH_RADIUS_METERS = 6371008.8;
+const CIRCLE_STEPS = 32;
+// Sample points used to measure the buffer areas, enough to measure them to well under a percent
+const MAX_AREA_SAMPLES = 100000;
+
+const SITE_COLOR: [number, number, number] = [220, 38, 38];
+const BUFFER_COLOR: [number, number, number] = [55, 65, 81];
+
+type Point2 = [number, number];
+
+// Distances to a site are at most a few kilometres, so an equirectangular projection around its
+// centre is accurate to well under a metre
+const createLocalProjection = ([lng0, lat0]: Position) => {
+  const metersPerDegree = (EARTH_RADIUS_METERS * Math.PI) / 180;
+  const cosLat = Math.cos((lat0 * Math.PI) / 180);
+  return {
+    project: ([lng, lat]: Position): Point2 => [(lng - lng0) * metersPerDegree * cosLat, (lat - lat0) * metersPerDegree],
+    unproject: ([x, y]: Point2): Position => [lng0 + x / (metersPerDegree * cosLat), lat0 + y / metersPerDegree]
+  };
+};
+
+const getPolygons = (geometry: Polygon | MultiPolygon): Position[][][] =>
+  geometry.type === 'Polygon' ? [geometry.coordinates] : geometry.coordinates;
+
+const getCentre = (polygons: Position[][][]): Position => {
+  const outer = polygons.flatMap(rings => rings[0]);
+  return [
+    outer.reduce((sum, [lng]) => sum + lng, 0) / outer.length,
+    outer.reduce((sum, [, lat]) => sum + lat, 0) / outer.length
+  ];
+};
+
+const ringArea = (ring: Point2[]) => {
+  let area = 0;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    area += ring[j][0] * ring[i][1] - ring[i][0] * ring[j][1];
+  }
+  return Math.abs(area) / 2;
+};
+
+const isInsideRing = ([x, y]: Point2, ring: Point2[]) => {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if ((yi > y) !== (yj > y) && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) inside = !inside;
+  }
+  return inside;
+};
+
+const distanceToSegment = ([x, y]: Point2, [x1, y1]: Point2, [x2, y2]: Point2) => {
+  const dx = x2 - x1;
+  const dy = y2 - y1;
+  const lengthSquared = dx * dx + dy * dy;
+  const t = lengthSquared > 0 ? Math.max(0, Math.min(1, ((x - x1) * dx + (y - y1) * dy) / lengthSquared)) : 0;
+  return Math.hypot(x - (x1 + t * dx), y - (y1 + t * dy));
+};
+
+// Zero inside the site, otherwise the distance in metres to its nearest edge
+const distanceToSite = (point: Point2, polygons: Point2[][][]) => {
+  let nearest = Infinity;
+  for (const rings of polygons) {
+    const inHole = rings.slice(1).some(ring => isInsideRing(point, ring));
+    if (isInsideRing(point, rings[0]) && !inHole) return 0;
+    for (const ring of rings) {
+      for (let i = 1; i < ring.length; i++) {
+        nearest = Math.min(nearest, distanceToSegment(point, ring[i - 1], ring[i]));
+      }
+    }
+  }
+  return nearest;
+};
+
+// Area in m² within each distance of the site, from a regular grid of sample points over the largest
+// buffer's bounds. The samples use the same distance test as the counts, so concave sites, holes and
+// multi-part sites are measured the way their boreholes are counted.
+const measureBuffers = (polygons: Point2[][][], distances: number[]): number[] => {
+  const maxDistance = Math.max(...distances);
+  const outer = polygons.flatMap(rings => rings[0]);
+  const minX = Math.min(...outer.map(([x]) => x)) - maxDistance;
+  const maxX = Math.max(...outer.map(([x]) => x)) + maxDistance;
+  const minY = Math.min(...outer.map(([, y]) => y)) - maxDistance;
+  const maxY = Math.max(...outer.map(([, y]) => y)) + maxDistance;
+  const step = Math.sqrt(((maxX - minX) * (maxY - minY)) / MAX_AREA_SAMPLES);
+
+  const areas = distances.map(() => 0);
+  for (let x = minX + step / 2; x < maxX; x += step) {
+    for (let y = minY + step / 2; y < maxY; y += step) {
+      const distance = distanceToSite([x, y], polygons);
+      distances.forEach((buffer, i) => {
+        if (distance <= buffer) areas[i] += step * step;
+      });
+    }
+  }
+  return areas;
+};
+
+const convexHull = (points: Point2[]): Point2[] => {
+  const sorted = [...points].sort((a, b) => a[0] - b[0] || a[1] - b[1]);
+  const cross = (o: Point2, a: Point2, b: Point2) => (a[0] - o[0]) * (b[1] - o[1]) - (a[1] - o[1]) * (b[0] - o[0]);
+  const half = (list: Point2[]) => {
+    const hull: Point2[] = [];
+    list.forEach(point => {
+      while (hull.length >= 2 && cross(hull[hull.length - 2], hull[hull.length - 1], point) <= 0) hull.pop();
+      hull.push(point);
+    });
+    hull.pop();
+    return hull;
+  };
+  return [...half(sorted), ...half([...sorted].reverse())];
+};
+
+// Outline of a buffer for the map, drawn around the site's convex hull. It matches the counted
+// buffer exactly for convex sites and bulges slightly across any inlets in concave ones.
+const bufferOutline = (outerRings: Point2[][], distance: number): Point2[] => {
+  const hull = convexHull(outerRings.flat());
+  const offsets: Point2[] = [];
+  hull.forEach(([x, y]) => {
+    for (let step = 0; step < CIRCLE_STEPS; step++) {
+      const angle = (step / CIRCLE_STEPS) * Math.PI * 2;
+      offsets.push([x + Math.cos(angle) * distance, y + Math.sin(angle) * distance]);
+    }
+  });
+  const outline = convexHull(offsets);
+  return [...outline, outline[0]];
+};
+
+const summariseRow = (label: string, areaKm2: number, points: BoreholePointRecord[]): SiteReportRow => {
+  const agsCount = points.filter(point => point.hasAGS).length;
+  return {
+    label,
+    areaKm2,
+    count: points.length,
+    AGS_count: agsCount,
+    AGS_Percentage: points.length > 0 ? (agsCount / points.length) * 100 : 0,
+    density: areaKm2 > 0 ? points.length / areaKm2 : 0
+  };
+};
+
+const boundsOf = (positions: Position[]): Bounds => [
+  Math.min(...positions.map(([lng]) => lng)),
+  Math.min(...positions.map(([, lat]) => lat)),
+  Math.max(...positions.map(([lng]) => lng)),
+  Math.max(...positions.map(([, lat]) => lat))
+];
+
+const renderMapImage = async (layers: Layer[], bounds: Bounds, zoomOffset = 0): Promise<string> => {
+  const [west, south, east, north] = bounds;
+  const fitted = new WebMercatorViewport({ width: MAP_WIDTH, height: MAP_HEIGHT }).fitBounds(
+    [[west, south], [east, north]],
+    { padding: 24 }
+  );
+  const viewState = {
+    longitude: fitted.longitude,
+    latitude: fitted.latitude,
+    zoom: Math.min(fitted.zoom + zoomOffset, 18),
+    pitch: 0,
+    bearing: 0
+  };
+  const map = await renderMapCanvas(layers, viewState, MAP_WIDTH, MAP_HEIGHT, MAP_PIXEL_RATIO);
+  try {
+    return map.canvas.toDataURL('image/png');
+  } finally {
+    map.finalize();
+  }
+};
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const formatDate = (date: Date) => date.toLocaleDateString('en-GB', { day: 'numeric', month: 'long', year: 'numeric' });
+
+export const formatDistance = (meters: number) => (meters >= 1000 ? `${meters / 1000} km` : `${meters} m`);
+
+const buildReportHtml = ({
+  name,
+  centre,
+  rows,
+  metadata,
+  locationMap,
+  siteMap,
+  colorScale,
+  maxCellCount
+}: {
+  name: string;
+  centre: Position;
+  rows: SiteReportRow[];
+  metadata: DataMetadata | null;
+  locationMap: string;
+  siteMap: string;
+  colorScale: ColorScale;
+  maxCellCount: number;
+}) => {
+  const title = `Borehole availability: ${escapeHtml(name)}`;
+  const dataDate = metadata ? `SOBI download of ${formatDate(new Date(metadata.source_date))}` : 'not recorded for this data build';
+  const tableRows = rows.map(row => `
+        <tr>
+          <td>${escapeHtml(row.label)}</td>
+          <td>${row.areaKm2.toFixed(3)}</td>
+          <td>${row.count.toLocaleString()}</td>
+          <td>${row.AGS_count.toLocaleString()}</td>
+          <td>${row.AGS_Percentage.toFixed(1)}%</td>
+          <td>${row.density.toFixed(1)}</td>
+        </tr>`).join('');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8" />
+  <title>${title}</title>
+  <style>
+    body { font-family: system-ui, -apple-system, "Segoe UI", sans-serif; color: #111827; max-width: 180mm; margin: 24px auto; padding: 0 16px; font-size: 13px; }
+    h1 { font-size: 22px; margin: 0 0 4px; }
+    h2 { font-size: 15px; margin: 24px 0 8px; }
+    .meta { color: #6b7280; margin: 0 0 16px; }
+    figure { margin: 0 0 12px; break-inside: avoid; }
+    figure img { width: 100%; border: 1px solid #d1d5db; }
+    figcaption { color: #4b5563; font-size: 11px; margin-top: 4px; }
+    .ramp { display: flex; align-items: center; gap: 8px; font-size: 11px; color: #4b5563; margin-top: 4px; }
+    .ramp span.bar { display: inline-block; width: 160px; height: 10px; border-radius: 2px; background: ${gradientCss(colorScale)}; }
+    table { border-collapse: collapse; width: 100%; break-inside: avoid; }
+    th, td { border: 1px solid #d1d5db; padding: 4px 8px; text-align: right; }
+    th:first-child, td:first-child { text-align: left; }
+    th { background: #f3f4f6; }
+    .notes, footer { color: #4b5563; font-size: 11px; }
+    footer { border-top: 1px solid #d1d5db; margin-top: 24px; padding-top: 8px; }
+    .print { position: fixed; top: 16px; right: 16px; padding: 6px 12px; border-radius: 4px; border: 0; background: #2563eb; color: #fff; cursor: pointer; }
+    @media print { .print { display: none; } body { margin: 0; } @page { size: A4; margin: 15mm; } }
+  </style>
+</head>
+<body>
+  <button class="print" onclick="window.print()">Print / save as PDF</button>
+  <h1>${title}</h1>
+  <p class="meta">Desk-study borehole availability report &middot; prepared ${formatDate(new Date())} &middot; site centre ${centre[1].toFixed(5)}, ${centre[0].toFixed(5)}</p>
+
+  <h2>Location</h2>
+  <figure>
+    <img src="${locationMap}" alt="Location of the site" />
+    <figcaption>Site boundary shown in red.</figcaption>
+  </figure>
+
+  <h2>Boreholes around the site</h2>
+  <figure>
+    <img src="${siteMap}" alt="Borehole density around the site" />
+    <figcaption>
+      BGS boreholes per H3 resolution ${SITE_MAP_RESOLUTION} cell, with the site in red and the ${REPORT_BUFFERS.map(formatDistance).join(', ')} buffers in grey.
+      <span class="ramp"><span>1</span><span class="bar"></span><span>${maxCellCount.toLocaleString()} boreholes per cell</span></span>
+    </figcaption>
+  </figure>
+
+  <h2>Borehole counts</h2>
+  <table>
+    <thead>
+      <tr><th>Area</th><th>Area (km²)</th><th>Boreholes</th><th>AGS boreholes</th><th>AGS %</th><th>Boreholes / km²</th></tr>
+    </thead>
+    <tbody>${tableRows}
+    </tbody>
+  </table>
+  <p class="notes">
+    Counts are records in the BGS Single Onshore Borehole Index (SOBI) located inside each area. Each buffer includes the site
+    and is measured outwards from the site boundary. Buffer areas are measured from a fine grid of sample points, using
+    the same distance from the site boundary as the counts. AGS boreholes have a digital AGS log available from BGS.
+  </p>
+
+  <footer>
+    <p>Data date: ${dataDate}.</p>
+    ${ATTRIBUTIONS.map(line => `<p>${escapeHtml(line)}</p>`).join('\n    ')}
+  </footer>
+</body>
+</html>`;
+};
+
+// Count the boreholes inside a site and its buffers, render the two maps and lay them out as a
+// standalone HTML page that prints to PDF
+export const createSiteReport = async ({
+  name,
+  geometry,
+  colorScale
+}: {
+  name: string;
+  geometry: Polygon | MultiPolygon;
+  colorScale: ColorScale;
+}): Promise<string> => {
+  const polygons = getPolygons(geometry);
+  const centre = getCentre(polygons);
+  const { project, unproject } = createLocalProjection(centre);
+  const projected = polygons.map(rings => rings.map(ring => ring.map(project)));
+  const outerRings = projected.map(rings => rings[0]);
+
+  const siteArea = projected.reduce(
+    (sum, rings) => sum + ringArea(rings[0]) - rings.slice(1).reduce((holes, ring) => holes + ringArea(ring), 0),
+    0
+  );
+  const bufferAreas = measureBuffers(projected, REPORT_BUFFERS);
+
+  const outlines = REPORT_BUFFERS.map(distance => bufferOutline(outerRings, distance).map(unproject));
+  const studyBounds = boundsOf(outlines[outlines.length - 1]);
+
+  const [points, metadata] = await Promise.all([getPointsForBounds(studyBounds), getDataMetadata()]);
+  const distances = points.map(point => distanceToSite(project([point.longitude, point.latitude]), projected));
+
+  const rows = [
+    summariseRow('Site', siteArea / 1e6, points.filter((_, i) => distances[i] === 0)),
+    ...REPORT_BUFFERS.map((distance, i) =>
+      summariseRow(
+        `Site + ${formatDistance(distance)} buffer`,
+        bufferAreas[i] / 1e6,
+        points.filter((_, i) => distances[i] <= distance)
+      )
+    )
+  ];
+
+  const cells = processBoreholeData(points.filter((_, i) => distances[i] <= REPORT_BUFFERS[REPORT_BUFFERS.length - 1]), SITE_MAP_RESOLUTION);
+  const maxCellCount = cells.reduce((max, cell) => Math.max(max, cell.count), 1);
+
+  const siteOutline = new GeoJsonLayer({
+    id: 'report-site',
+    data: { type: 'Feature', geometry, properties: {} },
+    stroked: true,
+    filled: true,
+    getFillColor: [...SITE_COLOR, 30],
+    getLineColor: SITE_COLOR,
+    lineWidthUnits: 'pixels',
+    getLineWidth: 2
+  });
+  const buffers = new PathLayer<Position[]>({
+    id: 'report-buffers',
+    data: outlines,
+    getPath: outline => outline as [number, number][],
+    getColor: BUFFER_COLOR,
+    widthUnits: 'pixels',
+    getWidth: 1
+  });
+  const hexes = new H3HexagonLayer<HexagonData>({
+    id: 'report-hexes',
+    data: cells,
+    getHexagon: cell => cell.hexId,
+    getFillColor: cell => interpolateColor(maxCellCount > 1 ? (cell.count - 1) / (maxCellCount - 1) : 1, colorScale),
+    extruded: false,
+    stroked: false
+  });
+  const marker = new ScatterplotLayer<Position>({
+    id: 'report-marker',
+    data: [centre],
+    getPosition: position => position as [number, number],
+    getFillColor: SITE_COLOR,
+    radiusUnits: 'pixels',
+    getRadius: 6,
+    stroked: true,
+    getLineColor: [255, 255, 255],
+    lineWidthUnits: 'pixels',
+    getLineWidth: 2
+  });
+
+  // One after the other, as each holds its own WebGL context
+  const locationMap = await renderMapImage([createBasemapLayer(true, 'report-basemap'), siteOutline, marker], studyBounds, -4);
+  const siteMap = await renderMapImage([createBasemapLayer(true, 'report-basemap'), hexes, buffers, siteOutline], studyBounds);
+
+  return buildReportHtml({ name, centre, rows, metadata, locationMap, siteMap, colorScale, maxCellCount });
+};
@@ -0,0 +1,110 @@
+import { polygonToCells, latLngToCell, cellArea } from 'h3-js';
+import { Feature, MultiPolygon, Polygon, Position } from 'geojson';
+import { FINEST_RESOLUTION } from './hexData';
+import { concatHexColumns } from './hexColumns';
+import {
+  Bounds,
+  HEX_CHUNK_RESOLUTIONS,
+  HexIndex,
+  getHexChunk,
+  getHexIndexForResolution,
+  getVisibleChunks,
+  isChunkedResolution
+} from './hexChunks';
+
+export interface SiteSummary {
+  name: string;
+  cellCount: number;
+  areaKm2: number;
+  count: number;
+  AGS_count: number;
+  AGS_Percentage: number;
+  density: number;
+}
+
+type PolygonFeature = Feature<Polygon | MultiPolygon>;
+
+// Pull the polygon features out of anything the upload path accepts (a Feature or a FeatureCollection)
+export const getPolygonFeatures = (geojson: any): PolygonFeature[] => {
+  if (!geojson) return [];
+  const features: Feature[] = geojson.type === 'FeatureCollection' ? geojson.features : [geojson];
+  return features.filter((feature): feature is PolygonFeature =>
+    feature?.geometry?.type === 'Polygon' || feature?.geometry?.type === 'MultiPolygon'
+  ) as PolygonFeature[];
+};
+
+// Cover a polygon with H3 cells by centroid containment. Sites smaller than a single cell
+// would otherwise return nothing, so they fall back to the cell under their first vertex.
+export const coverPolygon = (geometry: Polygon | MultiPolygon, resolution: number): string[] => {
+  const rings: Position[][][] = geometry.type === 'Polygon' ? [geometry.coordinates] : geometry.coordinates;
+  const cells = new Set<string>();
+
+  rings.forEach(polygon => {
+    polygonToCells(polygon as number[][][], resolution, true).forEach(cell => cells.add(cell));
+  });
+
+  if (cells.size === 0 && rings.length > 0) {
+    const [lng, lat] = rings[0][0][0];
+    cells.add(latLngToCell(lat, lng, resolution));
+  }
+
+  return Array.from(cells);
+};
+
+const getGeometryBounds = (geometry: Polygon | MultiPolygon): Bounds => {
+  const rings: Position[][][] = geometry.type === 'Polygon' ? [geometry.coordinates] : geometry.coordinates;
+  const outer = rings.flatMap(polygon => polygon[0]);
+  return [
+    Math.min(...outer.map(([lng]) => lng)),
+    Math.min(...outer.map(([, lat]) => lat)),
+    Math.max(...outer.map(([lng]) => lng)),
+    Math.max(...outer.map(([, lat]) => lat))
+  ];
+};
+
+// At the chunked resolutions only the chunks under the site are loaded, not the national file
+const getSiteIndex = async (geometry: Polygon | MultiPolygon, resolution: number): Promise<HexIndex> => {
+  if (!isChunkedResolution(resolution)) return getHexIndexForResolution(resolution);
+
+  const chunks = await getVisibleChunks(getGeometryBounds(geometry), HEX_CHUNK_RESOLUTIONS[resolution]);
+  const columns = concatHexColumns(await Promise.all(chunks.map(chunk => getHexChunk(resolution, chunk))));
+  return { columns, rows: new Map(columns.hex.map((hex, row) => [hex, row])) };
+};
+
+export const summariseCells = (name: string, cells: string[], { columns, rows }: HexIndex): SiteSummary => {
+  let count = 0;
+  let agsCount = 0;
+  let areaKm2 = 0;
+
+  cells.forEach(cell => {
+    const row = rows.get(cell);
+    if (row !== undefined) {
+      count += columns.metrics.count[row];
+      agsCount += columns.metrics.AGS_count[row];
+    }
+    areaKm2 += cellArea(cell, 'km2');
+  });
+
+  return {
+    name,
+    cellCount: cells.length,
+    areaKm2,
+    count,
+    AGS_count: agsCount,
+    AGS_Percentage: count > 0 ? (agsCount / count) * 100 : 0,
+    density: areaKm2 > 0 ? count / areaKm2 : 0
+  };
+};
+
+export const summariseSites = async (geojson: any, resolution = FINEST_RESOLUTION): Promise<SiteSummary[]> => {
+  const features = getPolygonFeatures(geojson);
+  if (features.length === 0) return [];
+
+  return Promise.all(features.map(async (feature, i) =>
+    summariseCells(
+      feature.properties?.name || `Polygon ${i + 1}`,
+      coverPolygon(feature.geometry, resolution),
+      await getSiteIndex(feature.geometry, resolution)
+    )
+  ));
+};
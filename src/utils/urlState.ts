@@ -0,0 +1,113 @@
+import {
+  CLASSIFICATION_SCHEMES,
+  CLASS_COUNTS,
+  ClassificationScheme,
+  ClassificationSettings,
+  DEFAULT_CLASS_COUNT
+} from './classification';
+
+export interface SharedView {
+  longitude: number;
+  latitude: number;
+  zoom: number;
+  pitch: number;
+  bearing: number;
+}
+
+export type LayerKey = 'basemap' | 'hexagons' | 'geojson' | 'uploaded' | 'ags' | 'drawn';
+
+export const LAYER_KEYS: LayerKey[] = ['basemap', 'hexagons', 'geojson', 'uploaded', 'ags', 'drawn'];
+
+// Everything needed to reopen the map as someone else sees it. Uploaded files and drawn areas
+// stay on the sharer's machine, so only their visibility travels with the link.
+export interface SharedState {
+  view: SharedView;
+  metric: string;
+  deeperThan: number;
+  layers: Record<LayerKey, boolean>;
+  classification: ClassificationSettings;
+  // The metric hexes are extruded by in 3D, or null for the flat map
+  heightMetric: string | null;
+}
+
+const round = (value: number, places: number) => Number(value.toFixed(places));
+
+// The hash reads like a query string, e.g. #view=53.8,-1.55,10.5,0,0&metric=AGS_Percentage&layers=basemap,hexagons
+export const encodeSharedState = ({ view, metric, deeperThan, layers, classification, heightMetric }: SharedState): string => {
+  const params = new URLSearchParams();
+  params.set('view', [
+    round(view.latitude, 5),
+    round(view.longitude, 5),
+    round(view.zoom, 2),
+    round(view.pitch, 1),
+    round(view.bearing, 1)
+  ].join(','));
+  params.set('metric', metric);
+  if (metric === 'deeper_count') params.set('deeper', String(deeperThan));
+  params.set('layers', LAYER_KEYS.filter(key => layers[key]).join(','));
+  if (heightMetric) params.set('height', heightMetric);
+  params.set('scheme', classification.scheme);
+  params.set('classes', String(classification.classCount));
+  if (classification.scheme === 'manual' && classification.manualBreaks.trim()) {
+    params.set('breaks', classification.manualBreaks.trim());
+  }
+  // Keep the commas readable rather than percent-encoded
+  return params.toString().replace(/%2C/g, ',');
+};
+
+const parseView = (text: string | null): SharedView | undefined => {
+  const parts = (text || '').split(',').map(Number);
+  if (parts.length !== 5 || parts.some(part => !Number.isFinite(part))) return undefined;
+  const [latitude, longitude, zoom, pitch, bearing] = parts;
+  if (Math.abs(latitude) > 90 || Math.abs(longitude) > 180) return undefined;
+  return { latitude, longitude, zoom, pitch, bearing };
+};
+
+// Anything missing or malformed is left out, so the map falls back to its own defaults for it
+export const decodeSharedState = (hash: string): Partial<SharedState> => {
+  const params = new URLSearchParams(hash.replace(/^#/, ''));
+  const state: Partial<SharedState> = {};
+
+  const view = parseView(params.get('view'));
+  if (view) state.view = view;
+
+  if (params.get('metric')) state.metric = params.get('metric');
+
+  const deeperThan = Number(params.get('deeper'));
+  if (params.has('deeper') && Number.isFinite(deeperThan) && deeperThan >= 0) state.deeperThan = deeperThan;
+
+  if (params.has('layers')) {
+    const visible = new Set(params.get('layers').split(','));
+    state.layers = Object.fromEntries(LAYER_KEYS.map(key => [key, visible.has(key)])) as Record<LayerKey, boolean>;
+  }
+
+  // Links always carry a view, so one without a height was copied from the flat map
+  if (view) state.heightMetric = params.get('height');
+
+  const scheme = params.get('scheme') as ClassificationScheme;
+  const classCount = Number(params.get('classes'));
+  if (CLASSIFICATION_SCHEMES.some(option => option.value === scheme)) {
+    state.classification = {
+      scheme,
+      classCount: CLASS_COUNTS.includes(classCount) ? classCount : DEFAULT_CLASS_COUNT,
+      manualBreaks: params.get('breaks') || ''
+    };
+  }
+
+  return state;
+};
+
+export const readSharedState = (): Partial<SharedState> =>
+  typeof window === 'undefined' ? {} : decodeSharedState(window.location.hash);
+
+// replaceState rather than assigning the hash, so panning does not fill the back button history
+export const writeSharedState = (hash: string) => {
+  const { pathname, search } = window.location;
+  window.history.replaceState(window.history.state, '', `${pathname}${search}#${hash}`);
+};
+
+// The page path already carries the static export's base path, so links work wherever the app is hosted
+export const getShareUrl = (hash: string) => {
+  const { origin, pathname, search } = window.location;
+  return `${origin}${pathname}${search}#${hash}`;
+};
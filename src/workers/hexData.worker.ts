@@ -0,0 +1,41 @@
+import {
+  HexWorkerRequest,
+  HexWorkerResponse,
+  columnTransferables,
+  computeMetricStatistics,
+  readHexColumns
+} from '../utils/hexColumns';
+import { buildYearIndex, countYears, getBoreholeAttributes, recountHexes } from '../utils/boreholeAttributes';
+import { recountDepthHexes } from '../utils/depthMetrics';
+
+// Parses scale files and the borehole attribute table, recounts them under the filters and classifies
+// metric values away from the main thread, so the map keeps panning smoothly while new data loads
+const ctx = self as unknown as Worker;
+
+const reply = (response: HexWorkerResponse, transfer: Transferable[] = []) => ctx.postMessage(response, transfer);
+
+ctx.onmessage = async (event: MessageEvent<HexWorkerRequest>) => {
+  const request = event.data;
+  try {
+    if (request.type === 'columns') {
+      const columns = await readHexColumns(request.path);
+      reply({ id: request.id, result: columns }, columnTransferables(columns));
+    } else if (request.type === 'statistics') {
+      reply({ id: request.id, result: computeMetricStatistics(request.values, request.options) });
+    } else if (request.type === 'recount') {
+      const columns = recountHexes(await getBoreholeAttributes(), request.resolution, request.filters);
+      reply({ id: request.id, result: columns }, columnTransferables(columns));
+    } else if (request.type === 'depth') {
+      const attributes = await getBoreholeAttributes();
+      const columns = recountDepthHexes(attributes, request.resolution, request.filters, request.deeperThan);
+      reply({ id: request.id, result: columns }, columnTransferables(columns));
+    } else if (request.type === 'yearIndex') {
+      const index = buildYearIndex(await getBoreholeAttributes(), request.resolution, request.filters);
+      reply({ id: request.id, result: index }, [index.cellIndices.buffer, index.hasAgs.buffer, index.yearStarts.buffer]);
+    } else {
+      reply({ id: request.id, result: countYears(await getBoreholeAttributes(), request.filters) });
+    }
+  } catch (error) {
+    reply({ id: request.id, error: error instanceof Error ? error.message : String(error) });
+  }
+};